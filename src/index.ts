@@ -5,6 +5,7 @@
 
 // Core Manager
 export { Manager } from './manager/Manager';
+export type { NodeDrainResult, PlayerRestoreResult } from './manager/Manager';
 
 // Event System
 export { LavalinkEventEmitter, Events } from './manager/events';
@@ -12,7 +13,9 @@ export type { ManagerEvents, TrackException } from './manager/events';
 
 // Voice Management
 export { VoiceForwarder } from './manager/VoiceForwarder';
-export type { VoiceConnection } from './manager/VoiceForwarder';
+export { VoiceRecovery, DEFAULT_VOICE_CLOSE_ACTIONS } from './manager/VoiceRecovery';
+export { ShardRouter, getShardId } from './manager/ShardRouter';
+export type { VoiceConnection, VoiceListener } from './manager/VoiceForwarder';
 
 // Node Management
 export { Node, NodeState } from './nodes/Node';
@@ -23,18 +26,46 @@ export type { PenaltyCalculator } from './nodes/NodeManager';
 // Player
 export { Player } from './player/Player';
 export type { PlayerState } from './player/Player';
+export { Queue } from './player/Queue';
+export { Inactivity } from './player/Inactivity';
+export { VoteSkip } from './player/VoteSkip';
+export type { QueueSearchResult } from './player/Queue';
 
 // Filters
 export { FilterBuilder, EqualizerPresets } from './player/FilterBuilder';
 
 // Utilities
 export { HttpClient } from './utils/http';
-export type { RequestOptions, RequestConfig } from './utils/http';
+export type { RequestOptions, RequestConfig, RequestControl, RetryStrategy } from './utils/http';
 export { ExponentialBackoff, sleep, withBackoff } from './utils/backoff';
 export type { BackoffOptions } from './utils/backoff';
+export { runWithConcurrency } from './utils/concurrency';
+export { RequestScheduler } from './utils/RequestScheduler';
+export type { RequestPriority, RequestSchedulerStats } from './utils/RequestScheduler';
+export { setRequester, getRequester, attachRequester } from './utils/requester';
+export { getVoiceRegion, normalizeRegion } from './utils/region';
 export { AutoPlay } from './utils/autoplay';
 export { MetadataCache } from './utils/MetadataCache';
 export { FavoritesManager } from './utils/FavoritesManager';
+export { VolumeNormalizer } from './utils/VolumeNormalizer';
+export {
+  VoiceConnectTimeoutError,
+  LavalinkRestError,
+  LavalinkAuthError,
+  SessionNotFoundError,
+  PlayerNotFoundError,
+  LavalinkNetworkError,
+  RequestTimeoutError,
+} from './utils/errors';
+export type { LavalinkErrorBody } from './utils/errors';
+export { MemoryPlayerStore, JsonFilePlayerStore } from './utils/PlayerStore';
+export type { PlayerStore } from './utils/PlayerStore';
+export {
+  PLAYER_SNAPSHOT_VERSION,
+  MANAGER_SNAPSHOT_VERSION,
+  migratePlayerSnapshot,
+  migrateManagerSnapshot,
+} from './utils/snapshot';
 
 // Types
 export type {
@@ -46,6 +77,8 @@ export type {
   // Track & Search Types
   Track,
   TrackInfo,
+  TrackUserData,
+  TrackRequester,
   Playlist,
   PlaylistInfo,
   LoadResult,
@@ -57,6 +90,8 @@ export type {
   
   // Player Types
   PlayerOptions,
+  PlayerSnapshot,
+  ManagerSnapshot,
   PlayerUpdateOptions,
   VoiceState,
   
@@ -86,14 +121,24 @@ export type {
   
   // REST API Types
   UpdatePlayerPayload,
+  UpdatePlayerTrack,
   PlayerResponse,
+  PlayerStateDifference,
   
   // Manager Types
   ManagerOptions,
+  VolumeNormalizationOptions,
+  InactivityOptions,
+  InactivityReason,
+  VoteSkipOptions,
+  VoteSkipResult,
+  VoiceCloseAction,
   DiscordVoicePayload,
   DiscordVoiceServerUpdate,
   DiscordVoiceStateUpdate,
   DiscordVoiceEvent,
+  DiscordGuildCreate,
+  DiscordGuildMember,
   
   // Utility Types
   SearchPlatform,
@@ -6,8 +6,17 @@
 import { LavalinkEventEmitter } from './events';
 import type { ManagerEvents } from './events';
 import { VoiceForwarder } from './VoiceForwarder';
+import { VoiceRecovery } from './VoiceRecovery';
+import { ShardRouter } from './ShardRouter';
 import { NodeManager } from '../nodes/NodeManager';
 import { Player } from '../player/Player';
+import { runWithConcurrency } from '../utils/concurrency';
+import { attachRequester } from '../utils/requester';
+import { VolumeNormalizer } from '../utils/VolumeNormalizer';
+import { MANAGER_SNAPSHOT_VERSION, migrateManagerSnapshot } from '../utils/snapshot';
+import { getVoiceRegion } from '../utils/region';
+import type { PlayerStore } from '../utils/PlayerStore';
+import type { RequestControl } from '../utils/http';
 import type { Node } from '../nodes/Node';
 import type {
   ManagerOptions,
@@ -16,8 +25,29 @@ import type {
   NodeOptions,
   SearchPlatformType,
   LoadResult,
+  TrackRequester,
+  ManagerSnapshot,
 } from '../types/lavalink';
 
+/**
+ * Outcome of moving a single player while draining a node
+ */
+export interface NodeDrainResult {
+  success: boolean;
+  /** Node the player was moved to */
+  target?: Node;
+  error?: Error;
+}
+
+/**
+ * Outcome of restoring a single player from a snapshot
+ */
+export interface PlayerRestoreResult {
+  success: boolean;
+  player?: Player;
+  error?: Error;
+}
+
 /**
  * Plugin interface for lavaflow
  */
@@ -29,9 +59,15 @@ export interface LavaPlugin {
 }
 
 export class Manager extends LavalinkEventEmitter {
-  public readonly options: Required<ManagerOptions>;
-  private nodeManager: NodeManager;
+  public readonly options: Required<Omit<ManagerOptions, 'send' | 'sendToShard'>> &
+    Pick<ManagerOptions, 'send' | 'sendToShard'>;
+  /** Node manager owned by this Manager (not shared with other instances) */
+  public readonly nodeManager: NodeManager;
+  /** Volume normalizer shared by all players, so learned loudness baselines are shared too */
+  public readonly volumeNormalizer: VolumeNormalizer;
   private voiceForwarder: VoiceForwarder | null = null;
+  private voiceRecovery: VoiceRecovery | null = null;
+  private shardRouter: ShardRouter;
   private players: Map<string, Player> = new Map();
   private clientId: string | null = null;
   private initialized: boolean = false;
@@ -67,15 +103,44 @@ export class Manager extends LavalinkEventEmitter {
     this.options = {
       nodes: options.nodes,
       send: options.send,
+      sendToShard: options.sendToShard,
       clientId: options.clientId ?? '',
       shards: options.shards ?? 1,
       autoPlay: options.autoPlay ?? true,
       defaultSearchPlatform: options.defaultSearchPlatform ?? 'spsearch',
       debug: options.debug ?? false,
+      volumeNormalization: options.volumeNormalization ?? {},
+      inactivity: options.inactivity ?? {},
+      trackListeners: options.trackListeners ?? true,
+      voteSkip: options.voteSkip ?? {},
+      voiceCloseActions: options.voiceCloseActions ?? {},
+      regions: options.regions ?? {},
     };
 
     this.debugEnabled = this.options.debug;
-    this.nodeManager = NodeManager.getInstance();
+    this.nodeManager = new NodeManager();
+    NodeManager.registerInstance(this.nodeManager);
+    this.nodeManager.setRegions(this.options.regions);
+    this.volumeNormalizer = new VolumeNormalizer(this.options.volumeNormalization);
+    this.shardRouter = new ShardRouter(
+      this.options.shards,
+      this,
+      this.options.send,
+      this.options.sendToShard
+    );
+
+    // Inactivity timers only announce that the player should leave; leaving is done here
+    this.on('playerAutoLeave', (player) => {
+      if (this.players.get(player.guildId) !== player) {
+        return;
+      }
+      this.destroyPlayer(player.guildId).catch((error) => {
+        this.emit(
+          'debug',
+          `Failed to auto-leave guild ${player.guildId}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      });
+    });
   }
 
   /**
@@ -114,9 +179,11 @@ export class Manager extends LavalinkEventEmitter {
     // Initialize voice forwarder
     this.voiceForwarder = new VoiceForwarder(
       this.clientId,
-      this.options.send,
-      this
+      (guildId, payload) => this.shardRouter.route(guildId, payload),
+      this,
+      this.options.trackListeners
     );
+    this.voiceRecovery = new VoiceRecovery(this, this.voiceForwarder, this.options.voiceCloseActions);
 
     // Mark as initialized before adding nodes
     this.initialized = true;
@@ -163,6 +230,57 @@ export class Manager extends LavalinkEventEmitter {
     return this.nodeManager.removeNode(name);
   }
 
+  /**
+   * Move every player off a node, then remove it
+   * Players are moved with bounded concurrency; returns the outcome per guild ID.
+   * If any player could not be moved, the node is kept and stops draining.
+   */
+  public async drainNode(
+    name: string,
+    options: { concurrency?: number } = {}
+  ): Promise<Map<string, NodeDrainResult>> {
+    const node = this.nodeManager.getNode(name);
+    if (!node) {
+      throw new Error(`Node ${name} not found`);
+    }
+
+    node.draining = true;
+    const players = this.getPlayers().filter((player) => player.node === node);
+    this.emit('debug', `Draining node ${name} (${players.length} players)`);
+
+    const outcomes = await runWithConcurrency(
+      players,
+      options.concurrency ?? 5,
+      async (player): Promise<NodeDrainResult> => {
+        try {
+          const target = this.nodeManager.getBestNode(player.voiceRegion);
+          await player.moveNode(target);
+          return { success: true, target };
+        } catch (error) {
+          return {
+            success: false,
+            error: error instanceof Error ? error : new Error(String(error)),
+          };
+        }
+      }
+    );
+
+    const results = new Map<string, NodeDrainResult>();
+    players.forEach((player, index) => results.set(player.guildId, outcomes[index]));
+
+    const remaining = this.getPlayers().filter((player) => player.node === node).length;
+    if (remaining > 0) {
+      node.draining = false;
+      this.emit('debug', `Node ${name} kept: ${remaining} players could not be moved off it`);
+      return results;
+    }
+
+    this.removeNode(name);
+    this.emit('debug', `Node ${name} drained and removed`);
+
+    return results;
+  }
+
   /**
    * Get a node by name
    */
@@ -178,10 +296,10 @@ export class Manager extends LavalinkEventEmitter {
   }
 
   /**
-   * Get the best available node
+   * Get the best available node, preferring nodes serving the voice region if given
    */
-  public getBestNode(): Node {
-    return this.nodeManager.getBestNode();
+  public getBestNode(voiceRegion?: string | null): Node {
+    return this.nodeManager.getBestNode(voiceRegion);
   }
 
   // ==================== Player Management ====================
@@ -198,21 +316,36 @@ export class Manager extends LavalinkEventEmitter {
       return this.players.get(options.guildId)!;
     }
 
-    const node = this.getBestNode();
-    const player = new Player(options, node, this, this.options.autoPlay, this.options.defaultSearchPlatform);
+    // The voice region is only known here if the bot is already connected in the guild;
+    // otherwise the player moves to a regional node once Discord sends the endpoint
+    const voiceRegion = getVoiceRegion(this.voiceForwarder!.getVoiceState(options.guildId)?.endpoint);
+    const node = this.getBestNode(voiceRegion);
+    const player = new Player(
+      {
+        ...options,
+        inactivity: { ...this.options.inactivity, ...options.inactivity },
+        voteSkip: { ...this.options.voteSkip, ...options.voteSkip },
+      },
+      node,
+      this,
+      this.options.autoPlay,
+      this.options.defaultSearchPlatform,
+      this.nodeManager,
+      this.volumeNormalizer,
+      this.voiceForwarder
+    );
 
     this.players.set(options.guildId, player);
+    this.voiceForwarder!.syncListeners(player, options.voiceChannelId, true);
     this.emit('playerCreate', player);
 
-    // Send voice state update to Discord
-    this.voiceForwarder!.sendVoiceUpdate(
-      options.guildId,
-      options.voiceChannelId,
-      {
-        selfMute: options.selfMute,
-        selfDeaf: options.selfDeafen,
-      }
-    );
+    // Join the voice channel; await player.connect() to know when it is ready
+    player.connect().catch((error) => {
+      this.emit(
+        'debug',
+        `Voice connection failed for guild ${options.guildId}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    });
 
     return player;
   }
@@ -257,8 +390,102 @@ export class Manager extends LavalinkEventEmitter {
     return this.players.has(guildId);
   }
 
+  // ==================== Snapshots ====================
+
+  /**
+   * Serialize every player into a versioned snapshot
+   */
+  public snapshot(): ManagerSnapshot {
+    return {
+      version: MANAGER_SNAPSHOT_VERSION,
+      createdAt: Date.now(),
+      players: this.getPlayers().map((player) => player.toSnapshot()),
+    };
+  }
+
+  /**
+   * Save a snapshot of every player to a store
+   */
+  public async saveSnapshot(store: PlayerStore): Promise<void> {
+    const snapshot = this.snapshot();
+    await store.save(snapshot);
+    this.emit('debug', `Saved snapshot of ${snapshot.players.length} players`);
+  }
+
+  /**
+   * Recreate players from a snapshot or a store
+   * Older snapshot versions are migrated first; returns the outcome per guild ID
+   */
+  public async restore(
+    source: ManagerSnapshot | PlayerStore,
+    options: { concurrency?: number } = {}
+  ): Promise<Map<string, PlayerRestoreResult>> {
+    if (!this.initialized) {
+      throw new Error('Manager not initialized');
+    }
+
+    const data = 'load' in source ? await source.load() : source;
+    const results = new Map<string, PlayerRestoreResult>();
+    if (!data) {
+      return results;
+    }
+
+    const { players } = migrateManagerSnapshot(data);
+    this.emit('debug', `Restoring ${players.length} players from snapshot`);
+
+    const outcomes = await runWithConcurrency(
+      players,
+      options.concurrency ?? 5,
+      async (snapshot): Promise<PlayerRestoreResult> => {
+        try {
+          const player = this.create({
+            guildId: snapshot.guildId,
+            voiceChannelId: snapshot.voiceChannelId,
+            textChannelId: snapshot.textChannelId,
+            selfDeafen: snapshot.selfDeafen,
+            selfMute: snapshot.selfMute,
+            volume: snapshot.volume,
+          });
+          await player.restoreSnapshot(snapshot);
+          return { success: true, player };
+        } catch (error) {
+          return {
+            success: false,
+            error: error instanceof Error ? error : new Error(String(error)),
+          };
+        }
+      }
+    );
+
+    players.forEach((snapshot, index) => results.set(snapshot.guildId, outcomes[index]));
+    return results;
+  }
+
   // ==================== Voice Management ====================
 
+  /**
+   * Get the shard ID of a guild: (guild_id >> 22) % shards
+   */
+  public getShardId(guildId: string): number {
+    return this.shardRouter.getShardId(guildId);
+  }
+
+  /**
+   * Mark a shard as ready or unavailable (e.g. while it reconnects)
+   * Voice updates for an unavailable shard are queued and sent once it is ready again
+   */
+  public setShardReady(shardId: number, ready: boolean = true): void {
+    this.shardRouter.setShardReady(shardId, ready);
+    this.emit('debug', `Shard ${shardId} ${ready ? 'ready' : 'unavailable'}`);
+  }
+
+  /**
+   * Check if a shard is ready
+   */
+  public isShardReady(shardId: number): boolean {
+    return this.shardRouter.isShardReady(shardId);
+  }
+
   /**
    * Update voice state from Discord events
    * Call this from your Discord client's raw event handler
@@ -274,57 +501,75 @@ export class Manager extends LavalinkEventEmitter {
     }
 
     const eventType = packet.t;
-    if (eventType !== 'VOICE_SERVER_UPDATE' && eventType !== 'VOICE_STATE_UPDATE') {
+    if (
+      eventType !== 'VOICE_SERVER_UPDATE' &&
+      eventType !== 'VOICE_STATE_UPDATE' &&
+      eventType !== 'GUILD_CREATE'
+    ) {
       return;
     }
 
-    const guildId = packet.d.guild_id;
+    const data = packet.d as { guild_id?: string; id?: string };
+    const guildId = (eventType === 'GUILD_CREATE' ? data.id : data.guild_id) ?? '';
     const player = this.players.get(guildId);
 
-    this.voiceForwarder.handleVoiceUpdate(packet, player);
+    this.voiceForwarder.handleVoiceUpdate(packet, player).catch((error) => {
+      this.emit(
+        'debug',
+        `Voice update failed for guild ${guildId}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    });
   }
 
   // ==================== Convenience Methods ====================
 
   /**
    * Search for tracks using the default search platform
+   * If a requester is given, it is attached to every returned track
    */
   public async search(
     query: string,
-    platform?: SearchPlatformType
+    platform?: SearchPlatformType,
+    requester?: TrackRequester,
+    control?: RequestControl
   ): Promise<LoadResult> {
-    const node = this.getBestNode();
     const searchPlatform = platform ?? this.options.defaultSearchPlatform;
 
     // If query is a URL, don't add search prefix
     const isUrl = /^https?:\/\//.test(query);
     const identifier = isUrl ? query : `${searchPlatform}:${query}`;
 
-    return node.loadTracks(identifier);
+    return this.load(identifier, requester, control);
   }
 
   /**
    * Load tracks from a URL or identifier
+   * If a requester is given, it is attached to every returned track
    */
-  public async load(identifier: string): Promise<LoadResult> {
+  public async load(
+    identifier: string,
+    requester?: TrackRequester,
+    control?: RequestControl
+  ): Promise<LoadResult> {
     const node = this.getBestNode();
-    return node.loadTracks(identifier);
+    const result = await node.loadTracks(identifier, control);
+    return requester ? attachRequester(result, requester) : result;
   }
 
   /**
    * Decode a track
    */
-  public async decodeTrack(encoded: string): Promise<any> {
+  public async decodeTrack(encoded: string, control?: RequestControl): Promise<any> {
     const node = this.getBestNode();
-    return node.decodeTrack(encoded);
+    return node.decodeTrack(encoded, control);
   }
 
   /**
    * Decode multiple tracks
    */
-  public async decodeTracks(encoded: string[]): Promise<any[]> {
+  public async decodeTracks(encoded: string[], control?: RequestControl): Promise<any[]> {
     const node = this.getBestNode();
-    return node.decodeTracks(encoded);
+    return node.decodeTracks(encoded, control);
   }
 
   // ==================== Statistics ====================
@@ -370,6 +615,7 @@ export class Manager extends LavalinkEventEmitter {
 
     // Disconnect all nodes
     this.nodeManager.disconnectAll();
+    NodeManager.unregisterInstance(this.nodeManager);
 
     // Clear voice states
     this.voiceForwarder?.clearAllVoiceStates();
@@ -385,15 +631,49 @@ export class Manager extends LavalinkEventEmitter {
    * Setup event handlers for a node
    */
   private setupNodeEventHandlers(node: Node): void {
+    node.on('onReady', (_sessionId, resumed) => {
+      if (resumed) {
+        this.resyncPlayers(node).catch((error) => {
+          this.emit(
+            'debug',
+            `Error resyncing players on node ${node.options.name}: ${error instanceof Error ? error.message : String(error)}`
+          );
+        });
+      } else {
+        // A new session (e.g. after a lost session) has none of the node's players
+        this.rebuildPlayers(node).catch((error) => {
+          this.emit(
+            'debug',
+            `Error rebuilding players on node ${node.options.name}: ${error instanceof Error ? error.message : String(error)}`
+          );
+        });
+      }
+    });
+
+    node.on('onReconnectFailed', () => {
+      this.failoverPlayers(node).catch((error) => {
+        this.emit(
+          'debug',
+          `Error failing over players from node ${node.options.name}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      });
+    });
+
     node.on('onTrackStart', (event) => {
-      const player = this.players.get(event.guildId);
+      const player = this.getNodePlayer(node, event.guildId);
       if (player) {
+        player.handleTrackStart(event.track).catch((error) => {
+          this.emit(
+            'debug',
+            `Error handling track start: ${error instanceof Error ? error.message : String(error)}`
+          );
+        });
         this.emit('trackStart', player, event.track);
       }
     });
 
     node.on('onTrackEnd', (event) => {
-      const player = this.players.get(event.guildId);
+      const player = this.getNodePlayer(node, event.guildId);
       if (player) {
         player.handleTrackEnd(event.track, event.reason).catch((error) => {
           this.emit('debug', `Error handling track end: ${error.message}`);
@@ -403,28 +683,29 @@ export class Manager extends LavalinkEventEmitter {
     });
 
     node.on('onTrackException', (event) => {
-      const player = this.players.get(event.guildId);
+      const player = this.getNodePlayer(node, event.guildId);
       if (player) {
         this.emit('trackException', player, event.track, event.exception);
       }
     });
 
     node.on('onTrackStuck', (event) => {
-      const player = this.players.get(event.guildId);
+      const player = this.getNodePlayer(node, event.guildId);
       if (player) {
         this.emit('trackStuck', player, event.track, event.thresholdMs);
       }
     });
 
     node.on('onWebSocketClosed', (event) => {
-      const player = this.players.get(event.guildId);
+      const player = this.getNodePlayer(node, event.guildId);
       if (player) {
         this.emit('socketClosed', player, event.code, event.reason, event.byRemote);
+        void this.voiceRecovery?.handle(player, event);
       }
     });
 
     node.on('onPlayerUpdate', (guildId, state) => {
-      const player = this.players.get(guildId);
+      const player = this.getNodePlayer(node, guildId);
       if (player) {
         player.updateState({
           volume: player.volume,
@@ -436,4 +717,90 @@ export class Manager extends LavalinkEventEmitter {
       }
     });
   }
+
+  /**
+   * Resync every player bound to a node after its session was resumed
+   */
+  private async resyncPlayers(node: Node): Promise<void> {
+    const responses = await node.getPlayers();
+    const states = new Map(responses.map((response) => [response.guildId, response]));
+
+    for (const player of this.players.values()) {
+      if (player.node !== node) {
+        continue;
+      }
+
+      const state = states.get(player.guildId);
+      if (state) {
+        await player.refresh(state);
+      } else {
+        this.emit('debug', `Player for guild ${player.guildId} not found in resumed session of node ${node.options.name}`);
+      }
+    }
+
+    this.emit('debug', `Resynced ${states.size} players from resumed session on node ${node.options.name}`);
+  }
+
+  /**
+   * Re-create every player bound to a node on its new session
+   */
+  private async rebuildPlayers(node: Node): Promise<void> {
+    const players = this.getPlayers().filter((player) => player.node === node);
+    if (players.length === 0) {
+      return;
+    }
+
+    this.emit('debug', `Rebuilding ${players.length} players on new session of node ${node.options.name}`);
+
+    await runWithConcurrency(players, 5, async (player) => {
+      try {
+        await player.rebuild();
+      } catch (error) {
+        this.emit(
+          'debug',
+          `Failed to rebuild player for guild ${player.guildId}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    });
+  }
+
+  /**
+   * Move every player off a node that will not come back
+   */
+  private async failoverPlayers(node: Node): Promise<void> {
+    const players = this.getPlayers().filter((player) => player.node === node);
+    if (players.length === 0) {
+      return;
+    }
+
+    this.emit('debug', `Failing over ${players.length} players from node ${node.options.name}`);
+
+    for (const player of players) {
+      let target: Node;
+      try {
+        target = this.nodeManager.getBestNode(player.voiceRegion);
+      } catch {
+        this.emit('debug', `No node available to fail over player for guild ${player.guildId}`);
+        return;
+      }
+
+      try {
+        await player.moveNode(target);
+      } catch (error) {
+        this.emit(
+          'debug',
+          `Failed to move player for guild ${player.guildId}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Get the player for a guild only if it is bound to the given node
+   * Events from a node the player has moved away from are ignored
+   */
+  private getNodePlayer(node: Node, guildId: string): Player | undefined {
+    const player = this.players.get(guildId);
+    return player?.node === node ? player : undefined;
+  }
 }
@@ -0,0 +1,111 @@
+/**
+ * ShardRouter - Routes voice payloads to the gateway shard of their guild
+ * Payloads for a shard that is not ready are held back and sent once it is ready again
+ */
+
+import type { DiscordVoicePayload } from '../types/lavalink';
+import type { LavalinkEventEmitter } from './events';
+
+/**
+ * Compute the shard a guild belongs to: (guild_id >> 22) % shards
+ */
+export function getShardId(guildId: string, totalShards: number): number {
+  return Number((BigInt(guildId) >> 22n) % BigInt(totalShards));
+}
+
+export class ShardRouter {
+  public readonly totalShards: number;
+
+  private send?: (guildId: string, payload: DiscordVoicePayload) => void;
+  private sendToShard?: (shardId: number, payload: DiscordVoicePayload) => void;
+  private eventEmitter: LavalinkEventEmitter;
+  // Shards currently unavailable; every other shard is assumed ready
+  private unavailable: Set<number> = new Set();
+  // Held back payloads per shard; only the latest voice update per guild matters
+  private pending: Map<number, Map<string, DiscordVoicePayload>> = new Map();
+
+  constructor(
+    totalShards: number,
+    eventEmitter: LavalinkEventEmitter,
+    send?: (guildId: string, payload: DiscordVoicePayload) => void,
+    sendToShard?: (shardId: number, payload: DiscordVoicePayload) => void
+  ) {
+    if (!Number.isInteger(totalShards) || totalShards < 1) {
+      throw new Error('Shard count must be a positive integer');
+    }
+    if (!send && !sendToShard) {
+      throw new Error('Either send or sendToShard is required');
+    }
+
+    this.totalShards = totalShards;
+    this.eventEmitter = eventEmitter;
+    this.send = send;
+    this.sendToShard = sendToShard;
+  }
+
+  /**
+   * Get the shard ID of a guild
+   */
+  public getShardId(guildId: string): number {
+    return getShardId(guildId, this.totalShards);
+  }
+
+  /**
+   * Send a payload through the guild's shard, or hold it back until the shard is ready
+   */
+  public route(guildId: string, payload: DiscordVoicePayload): void {
+    const shardId = this.getShardId(guildId);
+
+    if (this.unavailable.has(shardId)) {
+      let queue = this.pending.get(shardId);
+      if (!queue) {
+        queue = new Map();
+        this.pending.set(shardId, queue);
+      }
+      queue.set(guildId, payload);
+      this.eventEmitter.emit('debug', `Shard ${shardId} not ready, queued voice update for guild ${guildId}`);
+      return;
+    }
+
+    this.dispatch(shardId, guildId, payload);
+  }
+
+  /**
+   * Mark a shard as ready or unavailable
+   * Becoming ready flushes the payloads held back for it
+   */
+  public setShardReady(shardId: number, ready: boolean): void {
+    if (!ready) {
+      this.unavailable.add(shardId);
+      return;
+    }
+
+    this.unavailable.delete(shardId);
+
+    const queue = this.pending.get(shardId);
+    if (!queue) {
+      return;
+    }
+
+    this.pending.delete(shardId);
+    this.eventEmitter.emit('debug', `Shard ${shardId} ready, flushing ${queue.size} voice updates`);
+    for (const [guildId, payload] of queue) {
+      this.dispatch(shardId, guildId, payload);
+    }
+  }
+
+  /**
+   * Check if a shard is ready
+   */
+  public isShardReady(shardId: number): boolean {
+    return !this.unavailable.has(shardId);
+  }
+
+  private dispatch(shardId: number, guildId: string, payload: DiscordVoicePayload): void {
+    if (this.sendToShard) {
+      this.sendToShard(shardId, payload);
+    } else {
+      this.send!(guildId, payload);
+    }
+  }
+}
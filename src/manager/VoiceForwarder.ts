@@ -1,13 +1,15 @@
 /**
  * VoiceForwarder - Handles Discord voice state updates
  * Intercepts VOICE_SERVER_UPDATE and VOICE_STATE_UPDATE events
- * and forwards them to the appropriate Lavalink node
+ * and forwards them to the appropriate Lavalink node.
+ * Also tracks other users' voice states to keep Player.listeners up to date.
  */
 
 import type {
   DiscordVoiceEvent,
   DiscordVoiceServerUpdate,
   DiscordVoiceStateUpdate,
+  DiscordGuildCreate,
   DiscordVoicePayload,
   VoiceState,
 } from '../types/lavalink';
@@ -22,20 +24,49 @@ export interface VoiceConnection {
   endpoint?: string;
 }
 
+/**
+ * A (non-bot) user in a voice channel
+ */
+export interface VoiceListener {
+  userId: string;
+  channelId: string;
+  selfDeaf: boolean;
+  selfMute: boolean;
+  /** Deafened by the server */
+  deaf: boolean;
+  /** Muted by the server */
+  mute: boolean;
+}
+
+interface VoiceWaiter {
+  check: (connection: VoiceConnection) => boolean;
+  resolve: () => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
 export class VoiceForwarder {
   private voiceStates: Map<string, VoiceConnection> = new Map();
+  // Voice state of every other (non-bot) user, keyed by guild ID then user ID
+  private members: Map<string, Map<string, VoiceListener>> = new Map();
+  private waiters: Map<string, VoiceWaiter[]> = new Map();
+  // Guilds whose voice channel is being left to rejoin it; that leave is not a disconnect
+  private rejoining: Set<string> = new Set();
   private eventEmitter: LavalinkEventEmitter;
   private sendPayload: (guildId: string, payload: DiscordVoicePayload) => void;
   private clientId: string;
+  private trackListeners: boolean;
 
   constructor(
     clientId: string,
     sendPayload: (guildId: string, payload: DiscordVoicePayload) => void,
-    eventEmitter: LavalinkEventEmitter
+    eventEmitter: LavalinkEventEmitter,
+    trackListeners: boolean = true
   ) {
     this.clientId = clientId;
     this.sendPayload = sendPayload;
     this.eventEmitter = eventEmitter;
+    this.trackListeners = trackListeners;
   }
 
   /**
@@ -46,6 +77,40 @@ export class VoiceForwarder {
       await this.handleVoiceServerUpdate(packet, player);
     } else if (packet.t === 'VOICE_STATE_UPDATE') {
       await this.handleVoiceStateUpdate(packet, player);
+    } else if (packet.t === 'GUILD_CREATE') {
+      this.handleGuildCreate(packet, player);
+    }
+  }
+
+  /**
+   * Handle GUILD_CREATE from Discord
+   * Seeds the users already in voice channels when the guild becomes available
+   */
+  private handleGuildCreate(packet: DiscordGuildCreate, player?: Player): void {
+    if (!this.trackListeners) {
+      return;
+    }
+
+    const { id, voice_states, members } = packet.d;
+    const bots = new Set(
+      (members ?? []).filter((member) => member.user?.bot).map((member) => member.user!.id)
+    );
+
+    const guildMembers = new Map<string, VoiceListener>();
+    for (const state of voice_states ?? []) {
+      if (state.user_id === this.clientId || bots.has(state.user_id) || state.member?.user?.bot) {
+        continue;
+      }
+      const listener = this.toListener(state);
+      if (listener) {
+        guildMembers.set(listener.userId, listener);
+      }
+    }
+    this.members.set(id, guildMembers);
+
+    if (player) {
+      this.syncListeners(player);
+      this.checkAlone(player);
     }
   }
 
@@ -76,7 +141,7 @@ export class VoiceForwarder {
 
     // If we have complete voice state, forward to Lavalink
     if (player && voiceState.sessionId) {
-      await this.forwardVoiceState(player, voiceState);
+      await this.forwardAndSettle(player, voiceState);
     }
   }
 
@@ -89,8 +154,15 @@ export class VoiceForwarder {
   ): Promise<void> {
     const { guild_id, user_id, session_id, channel_id } = packet.d;
 
-    // Only process updates for our bot
+    // Other users only matter for knowing who is in the player's channel
     if (user_id !== this.clientId) {
+      if (this.trackListeners && !packet.d.member?.user?.bot) {
+        this.updateMember(guild_id, packet.d);
+        if (player) {
+          this.syncListeners(player);
+          this.checkAlone(player);
+        }
+      }
       return;
     }
 
@@ -110,24 +182,174 @@ export class VoiceForwarder {
     voiceState.sessionId = session_id;
     voiceState.channelId = channel_id;
 
+    // Leaving to rejoin: wait for the join that follows
+    if (!channel_id && this.rejoining.has(guild_id)) {
+      this.voiceStates.delete(guild_id);
+      return;
+    }
+    this.rejoining.delete(guild_id);
+
     // If bot left the voice channel, clean up
     if (!channel_id) {
       this.voiceStates.delete(guild_id);
+      this.rejectWaiters(guild_id, new Error(`Disconnected from voice in guild ${guild_id}`));
       if (player) {
+        player.listeners = new Map();
         await player.disconnect();
       }
       return;
     }
 
-    // If player moved to a different channel
+    // If player moved to a different channel, by setVoiceChannel() or by someone dragging the bot
     if (player && player.voiceChannelId !== channel_id) {
       const oldChannel = player.voiceChannelId;
+      player.voiceChannelId = channel_id;
       this.eventEmitter.emit('playerMove', player, oldChannel, channel_id);
+
+      this.syncListeners(player, channel_id);
+    }
+
+    // The bot's channel is confirmed, including on the first join, so start the alone timer
+    // if nobody else is there (e.g. a restored player rejoining an empty channel)
+    if (player && this.trackListeners) {
+      this.checkAlone(player);
     }
 
     // If we have complete voice state, forward to Lavalink
     if (player && voiceState.token && voiceState.endpoint) {
+      await this.forwardAndSettle(player, voiceState);
+    } else {
+      this.settleWaiters(guild_id);
+    }
+  }
+
+  /**
+   * Wait until the bot's voice connection for a guild matches a condition
+   * Checked after each voice update for the guild has been forwarded to Lavalink
+   */
+  public waitForVoiceState(
+    guildId: string,
+    check: (connection: VoiceConnection) => boolean,
+    timeout: number,
+    onTimeout: () => Error
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const waiter: VoiceWaiter = {
+        check,
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          this.removeWaiter(guildId, waiter);
+          reject(onTimeout());
+        }, timeout),
+      };
+
+      const waiters = this.waiters.get(guildId) ?? [];
+      waiters.push(waiter);
+      this.waiters.set(guildId, waiters);
+    });
+  }
+
+  /**
+   * Record a user's voice state (no channel = left voice)
+   */
+  private updateMember(guildId: string, state: DiscordVoiceStateUpdate['d']): void {
+    let members = this.members.get(guildId);
+    const listener = this.toListener(state);
+
+    if (!listener) {
+      members?.delete(state.user_id);
+      return;
+    }
+
+    if (!members) {
+      members = new Map();
+      this.members.set(guildId, members);
+    }
+    members.set(listener.userId, listener);
+  }
+
+  private toListener(state: Omit<DiscordVoiceStateUpdate['d'], 'guild_id'>): VoiceListener | null {
+    if (!state.channel_id) {
+      return null;
+    }
+
+    return {
+      userId: state.user_id,
+      channelId: state.channel_id,
+      selfDeaf: state.self_deaf ?? false,
+      selfMute: state.self_mute ?? false,
+      deaf: state.deaf ?? false,
+      mute: state.mute ?? false,
+    };
+  }
+
+  /**
+   * Start or cancel the player's alone timer from its listeners
+   */
+  private checkAlone(player: Player): void {
+    if (player.listeners.size === 0) {
+      player.inactivity.start('alone');
+    } else {
+      player.inactivity.cancel('alone');
+    }
+  }
+
+  /**
+   * The channel the bot is in for a player's guild
+   */
+  private getPlayerChannel(player: Player): string {
+    return this.voiceStates.get(player.guildId)?.channelId ?? player.voiceChannelId;
+  }
+
+  /**
+   * Forward voice state, then resolve the waiters it satisfies
+   * A failed forward rejects every waiter for the guild; callers of connect() get the error from there
+   */
+  private async forwardAndSettle(player: Player, voiceState: VoiceConnection): Promise<void> {
+    try {
       await this.forwardVoiceState(player, voiceState);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.eventEmitter.emit('debug', `Voice update failed for guild ${player.guildId}: ${message}`);
+      this.rejectWaiters(player.guildId, error instanceof Error ? error : new Error(message));
+      return;
+    }
+
+    this.settleWaiters(player.guildId);
+  }
+
+  private settleWaiters(guildId: string): void {
+    const connection = this.voiceStates.get(guildId);
+    const waiters = this.waiters.get(guildId);
+    if (!connection || !waiters) {
+      return;
+    }
+
+    for (const waiter of [...waiters]) {
+      if (waiter.check(connection)) {
+        this.removeWaiter(guildId, waiter);
+        waiter.resolve();
+      }
+    }
+  }
+
+  private rejectWaiters(guildId: string, error: Error): void {
+    for (const waiter of this.waiters.get(guildId) ?? []) {
+      clearTimeout(waiter.timer);
+      waiter.reject(error);
+    }
+    this.waiters.delete(guildId);
+  }
+
+  private removeWaiter(guildId: string, waiter: VoiceWaiter): void {
+    clearTimeout(waiter.timer);
+    const waiters = (this.waiters.get(guildId) ?? []).filter((other) => other !== waiter);
+
+    if (waiters.length > 0) {
+      this.waiters.set(guildId, waiters);
+    } else {
+      this.waiters.delete(guildId);
     }
   }
 
@@ -183,6 +405,74 @@ export class VoiceForwarder {
     );
   }
 
+  /**
+   * Get the (non-bot) users in a voice channel
+   * Users are known from GUILD_CREATE and from their voice state updates
+   */
+  public getChannelMembers(guildId: string, channelId: string): VoiceListener[] {
+    const members = this.members.get(guildId);
+    if (!members) {
+      return [];
+    }
+
+    return Array.from(members.values()).filter((member) => member.channelId === channelId);
+  }
+
+  /**
+   * Update Player.listeners from the members of its voice channel
+   * Emits listenerJoin/listenerLeave for the differences unless silent
+   */
+  public syncListeners(
+    player: Player,
+    channelId: string = this.getPlayerChannel(player),
+    silent: boolean = false
+  ): void {
+    const previous = player.listeners;
+    const current = new Map(
+      this.getChannelMembers(player.guildId, channelId).map((member) => [member.userId, member])
+    );
+    player.listeners = current;
+
+    if (silent) {
+      return;
+    }
+
+    for (const [userId, listener] of previous) {
+      if (!current.has(userId)) {
+        this.eventEmitter.emit('listenerLeave', player, listener);
+        player.voteSkips.handleListenerLeave(userId).catch((error) => {
+          this.eventEmitter.emit(
+            'debug',
+            `Vote skip failed for guild ${player.guildId}: ${error instanceof Error ? error.message : String(error)}`
+          );
+        });
+      }
+    }
+    for (const [userId, listener] of current) {
+      if (!previous.has(userId)) {
+        this.eventEmitter.emit('listenerJoin', player, listener);
+      }
+    }
+  }
+
+  /**
+   * Leave the voice channel in order to join it again
+   * Discord ignores a voice update for the channel the bot is already in, so this is how
+   * a new voice session is started. The leave does not disconnect the player.
+   */
+  public beginRejoin(guildId: string, options?: { selfMute?: boolean; selfDeaf?: boolean }): void {
+    this.rejoining.add(guildId);
+    this.voiceStates.delete(guildId);
+    this.sendVoiceUpdate(guildId, null, options);
+  }
+
+  /**
+   * Stop treating the guild's next leave as part of a rejoin
+   */
+  public endRejoin(guildId: string): void {
+    this.rejoining.delete(guildId);
+  }
+
   /**
    * Get voice connection state for a guild
    */
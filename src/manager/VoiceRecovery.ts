@@ -0,0 +1,155 @@
+/**
+ * VoiceRecovery - Reacts to closed Discord voice connections
+ * Lavalink reports the close code of the voice WebSocket; the action taken is configurable per code
+ */
+
+import { sleep } from '../utils/backoff';
+import type { Manager } from './Manager';
+import type { VoiceForwarder } from './VoiceForwarder';
+import type { Player } from '../player/Player';
+import type { VoiceCloseAction, WebSocketClosedEvent } from '../types/lavalink';
+
+/** Default actions per Discord voice close code */
+export const DEFAULT_VOICE_CLOSE_ACTIONS: Record<number, VoiceCloseAction> = {
+  4006: 'rejoin', // Session no longer valid
+  4009: 'rejoin', // Session timeout (needs a new session)
+  4014: 'destroy', // Disconnected (kicked, channel deleted or moved)
+  4015: 'waitForServer', // Voice server crashed
+};
+
+/** Time to wait for a voice update before acting on a 4014 */
+const DISCONNECT_GRACE_PERIOD = 2000;
+
+/** Time to wait for a voice handshake or a new voice server */
+const RECOVERY_TIMEOUT = 10000;
+
+export class VoiceRecovery {
+  private manager: Manager;
+  private voiceForwarder: VoiceForwarder;
+  private actions: Record<number, VoiceCloseAction>;
+  // Guilds with a recovery in progress
+  private recovering: Set<string> = new Set();
+
+  constructor(
+    manager: Manager,
+    voiceForwarder: VoiceForwarder,
+    actions: Record<number, VoiceCloseAction> = {}
+  ) {
+    this.manager = manager;
+    this.voiceForwarder = voiceForwarder;
+    this.actions = { ...DEFAULT_VOICE_CLOSE_ACTIONS, ...actions };
+  }
+
+  /**
+   * Get the action configured for a close code
+   */
+  public getAction(code: number): VoiceCloseAction {
+    return this.actions[code] ?? 'ignore';
+  }
+
+  /**
+   * Run the configured action for a closed voice connection
+   * Only one recovery runs per guild at a time
+   */
+  public async handle(player: Player, event: WebSocketClosedEvent): Promise<void> {
+    const action = this.getAction(event.code);
+    if (action === 'ignore' || this.recovering.has(player.guildId)) {
+      return;
+    }
+
+    this.recovering.add(player.guildId);
+    this.manager.emit('voiceRecovery', player, action, event.code, event.reason);
+    this.manager.emit(
+      'debug',
+      `Voice connection closed for guild ${player.guildId} (${event.code}: ${event.reason}), action: ${action}`
+    );
+
+    try {
+      await this.run(player, action);
+    } catch (error) {
+      this.manager.emit(
+        'voiceRecoveryFailed',
+        player,
+        action,
+        error instanceof Error ? error : new Error(String(error))
+      );
+    } finally {
+      this.recovering.delete(player.guildId);
+    }
+  }
+
+  // ==================== Internal Methods ====================
+
+  private async run(player: Player, action: VoiceCloseAction): Promise<void> {
+    switch (action) {
+      case 'rejoin':
+        await player.rejoin(RECOVERY_TIMEOUT);
+        break;
+      case 'reconnect':
+        await this.reconnect(player);
+        break;
+      case 'waitForServer':
+        await this.waitForServer(player);
+        break;
+      case 'destroy':
+        await this.destroyUnlessMoved(player);
+        break;
+      case 'ignore':
+        break;
+    }
+  }
+
+  /**
+   * Send the current voice state again, or rejoin if it is incomplete
+   */
+  private async reconnect(player: Player): Promise<void> {
+    const { token, endpoint, sessionId } = player.voiceState;
+    if (!token || !endpoint || !sessionId) {
+      await player.rejoin(RECOVERY_TIMEOUT);
+      return;
+    }
+
+    await player.updateVoiceState({});
+  }
+
+  /**
+   * Wait for Discord to assign a new voice server; rejoin if it doesn't
+   */
+  private async waitForServer(player: Player): Promise<void> {
+    const previous = this.voiceForwarder.getVoiceState(player.guildId);
+
+    try {
+      await this.voiceForwarder.waitForVoiceState(
+        player.guildId,
+        (connection) =>
+          connection.token !== previous?.token || connection.endpoint !== previous?.endpoint,
+        RECOVERY_TIMEOUT,
+        () => new Error(`No new voice server for guild ${player.guildId}`)
+      );
+    } catch (error) {
+      this.manager.emit(
+        'debug',
+        `${error instanceof Error ? error.message : String(error)}, rejoining`
+      );
+      this.manager.emit('voiceRecovery', player, 'rejoin', 4015, 'No new voice server');
+      await player.rejoin(RECOVERY_TIMEOUT);
+    }
+  }
+
+  /**
+   * 4014 is also sent when the bot is moved, so give the voice state update time to arrive
+   * Only destroy if Discord reports the bot is no longer in any voice channel
+   */
+  private async destroyUnlessMoved(player: Player): Promise<void> {
+    await sleep(DISCONNECT_GRACE_PERIOD);
+
+    if (this.voiceForwarder.getVoiceState(player.guildId)?.channelId) {
+      this.manager.emit('debug', `Player for guild ${player.guildId} is still in a voice channel, not destroying`);
+      return;
+    }
+
+    if (this.manager.get(player.guildId) === player) {
+      await this.manager.destroyPlayer(player.guildId);
+    }
+  }
+}
@@ -4,9 +4,17 @@
  */
 
 import { EventEmitter } from 'events';
-import type { Track, TrackEndReason, NodeStats } from '../types/lavalink';
+import type {
+  Track,
+  TrackEndReason,
+  NodeStats,
+  InactivityReason,
+  VoiceCloseAction,
+  PlayerStateDifference,
+} from '../types/lavalink';
 import type { Player } from '../player/Player';
 import type { Node } from '../nodes/Node';
+import type { VoiceListener } from './VoiceForwarder';
 
 export interface ManagerEvents {
   // Node events
@@ -15,11 +23,20 @@ export interface ManagerEvents {
   nodeError: [node: Node, error: Error];
   nodeReconnect: [node: Node, attempt: number];
   nodeStats: [node: Node, stats: NodeStats];
+  nodeSessionLost: [node: Node, sessionId: string];
 
   // Player events
   playerCreate: [player: Player];
   playerDestroy: [player: Player];
   playerMove: [player: Player, oldChannel: string, newChannel: string];
+  playerNodeMove: [player: Player, oldNode: Node, newNode: Node];
+  playerStateDesync: [player: Player, differences: PlayerStateDifference[]];
+  playerIdle: [player: Player, reason: InactivityReason, timeout: number];
+  playerAutoLeave: [player: Player, reason: InactivityReason];
+  listenerJoin: [player: Player, listener: VoiceListener];
+  listenerLeave: [player: Player, listener: VoiceListener];
+  voteSkipUpdate: [player: Player, userId: string, votes: number, required: number];
+  voteSkipPassed: [player: Player, track: Track, voters: string[], privileged: boolean];
 
   // Track events
   trackStart: [player: Player, track: Track];
@@ -29,9 +46,14 @@ export interface ManagerEvents {
 
   // Queue events
   queueEnd: [player: Player];
+  queueAdd: [player: Player, tracks: Track[]];
+  queueRemove: [player: Player, tracks: Track[]];
+  queueShuffle: [player: Player];
 
   // WebSocket events
   socketClosed: [player: Player, code: number, reason: string, byRemote: boolean];
+  voiceRecovery: [player: Player, action: VoiceCloseAction, code: number, reason: string];
+  voiceRecoveryFailed: [player: Player, action: VoiceCloseAction, error: Error];
 
   // Debug events
   debug: [message: string];
@@ -105,11 +127,20 @@ export const Events = {
   NodeError: 'nodeError' as const,
   NodeReconnect: 'nodeReconnect' as const,
   NodeStats: 'nodeStats' as const,
+  NodeSessionLost: 'nodeSessionLost' as const,
 
   // Player events
   PlayerCreate: 'playerCreate' as const,
   PlayerDestroy: 'playerDestroy' as const,
   PlayerMove: 'playerMove' as const,
+  PlayerNodeMove: 'playerNodeMove' as const,
+  PlayerStateDesync: 'playerStateDesync' as const,
+  PlayerIdle: 'playerIdle' as const,
+  PlayerAutoLeave: 'playerAutoLeave' as const,
+  ListenerJoin: 'listenerJoin' as const,
+  ListenerLeave: 'listenerLeave' as const,
+  VoteSkipUpdate: 'voteSkipUpdate' as const,
+  VoteSkipPassed: 'voteSkipPassed' as const,
 
   // Track events
   TrackStart: 'trackStart' as const,
@@ -119,9 +150,14 @@ export const Events = {
 
   // Queue events
   QueueEnd: 'queueEnd' as const,
+  QueueAdd: 'queueAdd' as const,
+  QueueRemove: 'queueRemove' as const,
+  QueueShuffle: 'queueShuffle' as const,
 
   // WebSocket events
   SocketClosed: 'socketClosed' as const,
+  VoiceRecovery: 'voiceRecovery' as const,
+  VoiceRecoveryFailed: 'voiceRecoveryFailed' as const,
 
   // Debug events
   Debug: 'debug' as const,
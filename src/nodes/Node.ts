@@ -5,7 +5,11 @@
 
 import WebSocket from 'ws';
 import { HttpClient } from '../utils/http';
+import type { RequestControl } from '../utils/http';
 import { ExponentialBackoff } from '../utils/backoff';
+import { SessionNotFoundError } from '../utils/errors';
+import { abortable, abortError } from '../utils/RequestScheduler';
+import type { RequestSchedulerStats } from '../utils/RequestScheduler';
 import type {
   NodeOptions,
   NodeStats,
@@ -44,6 +48,8 @@ export interface NodeEventHandlers {
   onDisconnect: (code: number, reason: string) => void;
   onError: (error: Error) => void;
   onReconnecting: (attempt: number) => void;
+  onReconnectFailed: () => void;
+  onSessionLost: (sessionId: string) => void;
 }
 
 export class Node {
@@ -52,13 +58,18 @@ export class Node {
   public stats: NodeStats | null = null;
   public sessionId: string | null = null;
   public info: NodeInfo | null = null;
+  /** Draining nodes are skipped when selecting a node for new or moved players */
+  public draining: boolean = false;
 
   private ws: WebSocket | null = null;
   private http: HttpClient;
   private backoff: ExponentialBackoff;
   private reconnectTimeout: NodeJS.Timeout | null = null;
-  private eventHandlers: Partial<NodeEventHandlers> = {};
+  private clientId: string | null = null;
+  private eventHandlers: { [K in keyof NodeEventHandlers]?: NodeEventHandlers[K][] } = {};
   private lastHeartbeat: number = 0;
+  // In-flight track loads by identifier, shared by concurrent callers
+  private pendingLoads: Map<string, Promise<LoadResult>> = new Map();
   private heartbeatInterval: NodeJS.Timeout | null = null;
 
   constructor(options: NodeOptions) {
@@ -74,6 +85,9 @@ export class Node {
       reconnectDelay: options.reconnectDelay ?? 5000,
       region: options.region,
       retryStrategy: options.retryStrategy ?? 'exponential',
+      requestTimeout: options.requestTimeout ?? 10000,
+      maxRequestRetries: options.maxRequestRetries ?? 3,
+      maxConcurrentRequests: options.maxConcurrentRequests ?? Infinity,
     } as Required<NodeOptions>;
 
     this.http = new HttpClient({
@@ -81,6 +95,10 @@ export class Node {
       port: this.options.port,
       password: this.options.password,
       secure: this.options.secure,
+      timeout: this.options.requestTimeout,
+      retryStrategy: this.options.retryStrategy,
+      maxRetries: this.options.maxRequestRetries,
+      maxInFlight: this.options.maxConcurrentRequests,
     });
 
     this.backoff = new ExponentialBackoff({
@@ -93,25 +111,30 @@ export class Node {
 
   /**
    * Connect to the Lavalink node
+   * If a previous session exists, Lavalink is asked to resume it via the Session-Id header
    */
   public async connect(clientId: string): Promise<void> {
     if (this.state !== NodeState.DISCONNECTED && this.state !== NodeState.RECONNECTING) {
       throw new Error(`Cannot connect when state is ${this.state}`);
     }
 
+    this.clientId = clientId;
     this.state = NodeState.CONNECTING;
 
     const protocol = this.options.secure ? 'wss' : 'ws';
     const url = `${protocol}://${this.options.host}:${this.options.port}/v4/websocket`;
 
-    this.ws = new WebSocket(url, {
-      headers: {
-        'Authorization': this.options.password,
-        'User-Id': clientId,
-        'Client-Name': 'lavaflow/1.0.0',
-        'Resume-Key': this.options.resumeKey,
-      },
-    });
+    const headers: Record<string, string> = {
+      'Authorization': this.options.password,
+      'User-Id': clientId,
+      'Client-Name': 'lavaflow/1.0.0',
+    };
+
+    if (this.sessionId) {
+      headers['Session-Id'] = this.sessionId;
+    }
+
+    this.ws = new WebSocket(url, { headers });
 
     this.ws.on('open', this.onOpen.bind(this));
     this.ws.on('message', this.onMessage.bind(this));
@@ -138,45 +161,81 @@ export class Node {
   }
 
   /**
-   * Register event handlers
+   * Register an event handler (multiple handlers per event are supported)
    */
   public on<K extends keyof NodeEventHandlers>(
     event: K,
     handler: NodeEventHandlers[K]
   ): void {
-    this.eventHandlers[event] = handler;
+    const handlers: NodeEventHandlers[K][] = this.eventHandlers[event] ?? [];
+    handlers.push(handler);
+    this.eventHandlers[event] = handlers as (typeof this.eventHandlers)[K];
   }
 
   // ==================== REST API Methods ====================
 
   /**
    * Load tracks from a search query or URL
+   * Concurrent loads of the same identifier share one request (sent with the first caller's
+   * timeout and priority); each caller's signal only abandons its own wait.
+   * Every caller gets its own copy of the result, so changing its tracks doesn't affect the others
    */
-  public async loadTracks(identifier: string): Promise<LoadResult> {
-    const encodedIdentifier = encodeURIComponent(identifier);
-    return this.http.get<LoadResult>(`/v4/loadtracks?identifier=${encodedIdentifier}`);
+  public async loadTracks(identifier: string, control?: RequestControl): Promise<LoadResult> {
+    if (control?.signal?.aborted) {
+      throw abortError();
+    }
+
+    let pending = this.pendingLoads.get(identifier);
+
+    if (!pending) {
+      const encodedIdentifier = encodeURIComponent(identifier);
+      pending = this.http
+        .get<LoadResult>(`/v4/loadtracks?identifier=${encodedIdentifier}`, undefined, {
+          timeout: control?.timeout,
+          priority: control?.priority ?? 'low',
+        })
+        .finally(() => this.pendingLoads.delete(identifier));
+      // Every caller may have given up by the time the load fails
+      pending.catch(() => undefined);
+      this.pendingLoads.set(identifier, pending);
+    }
+
+    const result = await abortable(pending, control?.signal);
+    // The result is plain JSON from Lavalink
+    return JSON.parse(JSON.stringify(result)) as LoadResult;
   }
 
   /**
    * Decode a single track
    */
-  public async decodeTrack(encoded: string): Promise<any> {
+  public async decodeTrack(encoded: string, control?: RequestControl): Promise<any> {
     const encodedTrack = encodeURIComponent(encoded);
-    return this.http.get(`/v4/decodetrack?encodedTrack=${encodedTrack}`);
+    return this.http.get(`/v4/decodetrack?encodedTrack=${encodedTrack}`, undefined, control);
   }
 
   /**
    * Decode multiple tracks
    */
-  public async decodeTracks(encoded: string[]): Promise<any[]> {
-    return this.http.post('/v4/decodetracks', encoded);
+  public async decodeTracks(encoded: string[], control?: RequestControl): Promise<any[]> {
+    return this.http.post('/v4/decodetracks', encoded, undefined, control);
   }
 
   /**
    * Get player information
    */
-  public async getPlayer(guildId: string): Promise<PlayerResponse> {
-    return this.http.get<PlayerResponse>(`/v4/sessions/${this.sessionId}/players/${guildId}`);
+  public async getPlayer(guildId: string, control?: RequestControl): Promise<PlayerResponse> {
+    return this.sessionRequest((sessionId) =>
+      this.http.get<PlayerResponse>(`/v4/sessions/${sessionId}/players/${guildId}`, undefined, control)
+    );
+  }
+
+  /**
+   * Get all players of the current session
+   */
+  public async getPlayers(control?: RequestControl): Promise<PlayerResponse[]> {
+    return this.sessionRequest((sessionId) =>
+      this.http.get<PlayerResponse[]>(`/v4/sessions/${sessionId}/players`, undefined, control)
+    );
   }
 
   /**
@@ -185,20 +244,30 @@ export class Node {
   public async updatePlayer(
     guildId: string,
     payload: UpdatePlayerPayload,
-    noReplace: boolean = false
+    noReplace: boolean = false,
+    control?: RequestControl
   ): Promise<PlayerResponse> {
     const query = noReplace ? '?noReplace=true' : '';
-    return this.http.patch<PlayerResponse>(
-      `/v4/sessions/${this.sessionId}/players/${guildId}${query}`,
-      payload
+    return this.sessionRequest((sessionId) =>
+      this.http.patch<PlayerResponse>(
+        `/v4/sessions/${sessionId}/players/${guildId}${query}`,
+        payload,
+        undefined,
+        { ...control, priority: control?.priority ?? 'high' }
+      )
     );
   }
 
   /**
    * Destroy a player
    */
-  public async destroyPlayer(guildId: string): Promise<void> {
-    await this.http.delete(`/v4/sessions/${this.sessionId}/players/${guildId}`);
+  public async destroyPlayer(guildId: string, control?: RequestControl): Promise<void> {
+    await this.sessionRequest((sessionId) =>
+      this.http.delete(`/v4/sessions/${sessionId}/players/${guildId}`, undefined, {
+        ...control,
+        priority: control?.priority ?? 'high',
+      })
+    );
   }
 
   /**
@@ -214,18 +283,27 @@ export class Node {
   /**
    * Get node stats
    */
-  public async getStats(): Promise<NodeStats> {
-    return this.http.get<NodeStats>('/v4/stats');
+  public async getStats(control?: RequestControl): Promise<NodeStats> {
+    return this.http.get<NodeStats>('/v4/stats', undefined, control);
+  }
+
+  /**
+   * REST queue depth and throughput metrics
+   */
+  public getRequestStats(): RequestSchedulerStats {
+    return this.http.scheduler.getStats();
   }
 
   /**
    * Update session with resume capability
    */
   public async updateSession(resuming: boolean, timeout: number): Promise<void> {
-    await this.http.patch(`/v4/sessions/${this.sessionId}`, {
-      resuming,
-      timeout,
-    });
+    await this.sessionRequest((sessionId) =>
+      this.http.patch(`/v4/sessions/${sessionId}`, {
+        resuming,
+        timeout,
+      })
+    );
   }
 
   // ==================== WebSocket Event Handlers ====================
@@ -235,7 +313,7 @@ export class Node {
     this.backoff.reset();
     this.lastHeartbeat = Date.now();
     this.startHeartbeat();
-    this.eventHandlers.onConnect?.();
+    this.dispatch('onConnect');
   }
 
   private onMessage(data: WebSocket.Data): void {
@@ -243,7 +321,8 @@ export class Node {
       const payload = JSON.parse(data.toString()) as LavalinkEvent;
       this.handleLavalinkEvent(payload);
     } catch (error) {
-      this.eventHandlers.onError?.(
+      this.dispatch(
+        'onError',
         error instanceof Error ? error : new Error('Failed to parse message')
       );
     }
@@ -254,16 +333,23 @@ export class Node {
     this.clearHeartbeatInterval();
 
     const reasonString = reason.toString();
-    this.eventHandlers.onDisconnect?.(code, reasonString);
+    this.dispatch('onDisconnect', code, reasonString);
 
     // Attempt reconnection if not a normal closure
-    if (code !== 1000 && this.options.maxReconnectAttempts !== 0) {
+    if (code === 1000) {
+      return;
+    }
+
+    if (this.options.maxReconnectAttempts === 0) {
+      // Reconnecting is disabled, so the node is gone for good
+      this.dispatch('onReconnectFailed');
+    } else {
       this.scheduleReconnect();
     }
   }
 
   private onError(error: Error): void {
-    this.eventHandlers.onError?.(error);
+    this.dispatch('onError', error);
   }
 
   private handleLavalinkEvent(event: LavalinkEvent): void {
@@ -285,19 +371,19 @@ export class Node {
 
   private handleReadyEvent(event: ReadyEvent): void {
     this.sessionId = event.sessionId;
-    this.eventHandlers.onReady?.(event.sessionId, event.resumed);
+    this.dispatch('onReady', event.sessionId, event.resumed);
 
-    // Configure session resuming
+    // Configure session resuming (a resumed session keeps its previous configuration)
     if (!event.resumed) {
       this.updateSession(true, this.options.resumeTimeout).catch((error) => {
-        this.eventHandlers.onError?.(error);
+        this.dispatch('onError', error);
       });
     }
   }
 
   private handlePlayerUpdateEvent(event: PlayerUpdateEvent): void {
     this.lastHeartbeat = Date.now();
-    this.eventHandlers.onPlayerUpdate?.(event.guildId, event.state);
+    this.dispatch('onPlayerUpdate', event.guildId, event.state);
   }
 
   private handleStatsEvent(event: StatsEvent): void {
@@ -309,7 +395,7 @@ export class Node {
       cpu: event.cpu,
       frameStats: event.frameStats,
     };
-    this.eventHandlers.onStats?.(this.stats);
+    this.dispatch('onStats', this.stats);
   }
 
   private handleTrackEvent(
@@ -322,19 +408,19 @@ export class Node {
   ): void {
     switch (event.type) {
       case 'TrackStartEvent':
-        this.eventHandlers.onTrackStart?.(event);
+        this.dispatch('onTrackStart', event);
         break;
       case 'TrackEndEvent':
-        this.eventHandlers.onTrackEnd?.(event);
+        this.dispatch('onTrackEnd', event);
         break;
       case 'TrackExceptionEvent':
-        this.eventHandlers.onTrackException?.(event);
+        this.dispatch('onTrackException', event);
         break;
       case 'TrackStuckEvent':
-        this.eventHandlers.onTrackStuck?.(event);
+        this.dispatch('onTrackStuck', event);
         break;
       case 'WebSocketClosedEvent':
-        this.eventHandlers.onWebSocketClosed?.(event);
+        this.dispatch('onWebSocketClosed', event);
         break;
     }
   }
@@ -365,7 +451,8 @@ export class Node {
 
   private scheduleReconnect(): void {
     if (this.backoff.hasReachedMaxAttempts()) {
-      this.eventHandlers.onError?.(new Error('Max reconnection attempts reached'));
+      this.dispatch('onError', new Error('Max reconnection attempts reached'));
+      this.dispatch('onReconnectFailed');
       return;
     }
 
@@ -373,7 +460,7 @@ export class Node {
     const delay = this.backoff.next();
     const attempt = this.backoff.getAttempt();
 
-    this.eventHandlers.onReconnecting?.(attempt);
+    this.dispatch('onReconnecting', attempt);
 
     this.reconnectTimeout = setTimeout(() => {
       this.reconnect();
@@ -381,21 +468,66 @@ export class Node {
   }
 
   private async reconnect(): Promise<void> {
-    if (!this.sessionId) {
-      this.eventHandlers.onError?.(new Error('Cannot reconnect without session ID'));
+    if (!this.clientId) {
+      this.dispatch('onError', new Error('Cannot reconnect without client ID'));
       return;
     }
 
     try {
-      await this.connect(this.sessionId);
+      await this.connect(this.clientId);
     } catch (error) {
-      this.eventHandlers.onError?.(
+      this.dispatch(
+        'onError',
         error instanceof Error ? error : new Error('Reconnection failed')
       );
       this.scheduleReconnect();
     }
   }
 
+  /**
+   * Run a request against the current session
+   * A SessionNotFoundError for the current session starts a new one
+   */
+  private async sessionRequest<T>(request: (sessionId: string | null) => Promise<T>): Promise<T> {
+    const sessionId = this.sessionId;
+
+    try {
+      return await request(sessionId);
+    } catch (error) {
+      // The session may have been replaced while the request was in flight
+      if (error instanceof SessionNotFoundError && sessionId && sessionId === this.sessionId) {
+        this.recoverSession(sessionId);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Drop a session Lavalink no longer knows about and reconnect without resuming
+   * The new session is announced with onReady (resumed: false), so players can be rebuilt.
+   * The new connection is opened directly, outside the reconnect attempts.
+   */
+  private recoverSession(sessionId: string): void {
+    this.sessionId = null;
+    this.dispatch('onSessionLost', sessionId);
+
+    // A reconnect in progress already connects without a session ID
+    if (!this.isConnected()) {
+      return;
+    }
+
+    if (this.ws) {
+      this.ws.removeAllListeners();
+      this.ws.close(4001, 'Session not found');
+      this.ws = null;
+    }
+    this.state = NodeState.DISCONNECTED;
+    this.clearHeartbeatInterval();
+    this.dispatch('onDisconnect', 4001, 'Session not found');
+
+    void this.reconnect();
+  }
+
   private clearReconnectTimeout(): void {
     if (this.reconnectTimeout) {
       clearTimeout(this.reconnectTimeout);
@@ -403,6 +535,23 @@ export class Node {
     }
   }
 
+  /**
+   * Invoke every handler registered for an event
+   */
+  private dispatch<K extends keyof NodeEventHandlers>(
+    event: K,
+    ...args: Parameters<NodeEventHandlers[K]>
+  ): void {
+    const handlers = this.eventHandlers[event];
+    if (!handlers) {
+      return;
+    }
+
+    for (const handler of handlers) {
+      (handler as (...handlerArgs: Parameters<NodeEventHandlers[K]>) => void)(...args);
+    }
+  }
+
   // ==================== Heartbeat ====================
 
   private startHeartbeat(): void {
@@ -412,7 +561,7 @@ export class Node {
 
       // If no heartbeat received in 60 seconds, consider connection dead
       if (timeSinceLastHeartbeat > 60000) {
-        this.eventHandlers.onError?.(new Error('Heartbeat timeout'));
+        this.dispatch('onError', new Error('Heartbeat timeout'));
         this.ws?.close(4000, 'Heartbeat timeout');
       }
     }, 15000);
@@ -1,9 +1,10 @@
 /**
- * NodeManager - Singleton pattern for managing multiple Lavalink nodes
+ * NodeManager - Manages multiple Lavalink nodes for a single Manager
  * Implements penalty-based load balancing and automatic failover
  */
 
 import { Node } from './Node';
+import { normalizeRegion } from '../utils/region';
 import type { NodeOptions } from '../types/lavalink';
 import type { LavalinkEventEmitter } from '../manager/events';
 
@@ -16,21 +17,44 @@ export class NodeManager {
   private clientId: string | null = null;
   private eventEmitter: LavalinkEventEmitter | null = null;
   private customPenaltyCalculator: PenaltyCalculator | null = null;
-
-  private constructor() {}
+  // Node names per voice region, keyed by normalized region
+  private regions: Map<string, string[]> = new Map();
 
   /**
-   * Get the singleton instance
+   * Get the shared instance: the NodeManager of the first Manager created
+   * @deprecated Each Manager owns its own NodeManager; use `manager.nodeManager` instead
    */
   public static getInstance(): NodeManager {
     if (!NodeManager.instance) {
-      NodeManager.instance = new NodeManager();
+      throw new Error(
+        'NodeManager.getInstance() is deprecated and no Manager has been created; use manager.nodeManager instead'
+      );
     }
     return NodeManager.instance;
   }
 
   /**
-   * Reset the singleton instance (useful for testing)
+   * Make a Manager's NodeManager the shared instance, unless another one already is
+   * Keeps code written against the old singleton working
+   */
+  public static registerInstance(nodeManager: NodeManager): void {
+    if (!NodeManager.instance) {
+      NodeManager.instance = nodeManager;
+    }
+  }
+
+  /**
+   * Stop sharing a NodeManager whose Manager was destroyed
+   */
+  public static unregisterInstance(nodeManager: NodeManager): void {
+    if (NodeManager.instance === nodeManager) {
+      NodeManager.instance = null;
+    }
+  }
+
+  /**
+   * Reset the shared instance
+   * @deprecated Each Manager owns its own NodeManager; use `manager.destroyAll()` instead
    */
   public static resetInstance(): void {
     if (NodeManager.instance) {
@@ -111,8 +135,8 @@ export class NodeManager {
    * Get the best node based on penalty calculation
    * This is the core load balancing logic
    */
-  public getBestNode(voiceRegion?: string): Node {
-    const connectedNodes = this.getConnectedNodes();
+  public getBestNode(voiceRegion?: string | null): Node {
+    const connectedNodes = this.getAvailableNodes();
 
     if (connectedNodes.length === 0) {
       throw new Error('No connected nodes available');
@@ -120,10 +144,8 @@ export class NodeManager {
 
     // If voice region optimization is requested, prefer nodes in the same region
     if (voiceRegion) {
-      const regionalNodes = connectedNodes.filter(node => 
-        node.options.region && this.matchesRegion(node.options.region, voiceRegion)
-      );
-      
+      const regionalNodes = this.getRegionalNodes(voiceRegion);
+
       if (regionalNodes.length > 0) {
         return this.selectBestFromNodes(regionalNodes);
       }
@@ -132,6 +154,47 @@ export class NodeManager {
     return this.selectBestFromNodes(connectedNodes);
   }
 
+  /**
+   * Get the available nodes serving a voice region
+   * Nodes mapped to the region by setRegions() come first; otherwise nodes whose
+   * `region` option matches. Empty if no node serves the region.
+   */
+  public getRegionalNodes(voiceRegion: string): Node[] {
+    const available = this.getAvailableNodes();
+
+    const mapped = this.regions.get(normalizeRegion(voiceRegion));
+    if (mapped) {
+      const nodes = available.filter((node) => mapped.includes(node.options.name));
+      if (nodes.length > 0) {
+        return nodes;
+      }
+    }
+
+    return available.filter(
+      (node) => node.options.region && this.matchesRegion(node.options.region, voiceRegion)
+    );
+  }
+
+  /**
+   * Map voice regions to the names of the nodes that serve them
+   * e.g. `{ 'us-east': ['us-1', 'us-2'], rotterdam: 'eu-1' }`; replaces any previous mapping
+   */
+  public setRegions(regions: Record<string, string | string[]>): void {
+    this.regions = new Map(
+      Object.entries(regions).map(([region, names]) => [
+        normalizeRegion(region),
+        Array.isArray(names) ? names : [names],
+      ])
+    );
+  }
+
+  /**
+   * Connected nodes that are not being drained
+   */
+  private getAvailableNodes(): Node[] {
+    return this.getConnectedNodes().filter((node) => !node.draining);
+  }
+
   /**
    * Select best node from a list based on penalty
    */
@@ -159,9 +222,9 @@ export class NodeManager {
    */
   private matchesRegion(nodeRegion: string, voiceRegion: string): boolean {
     // Normalize regions (e.g., us-west, uswest, us_west all match)
-    const normalize = (r: string) => r.toLowerCase().replace(/[-_]/g, '');
-    return normalize(nodeRegion).includes(normalize(voiceRegion)) || 
-           normalize(voiceRegion).includes(normalize(nodeRegion));
+    const node = normalizeRegion(nodeRegion);
+    const voice = normalizeRegion(voiceRegion);
+    return node.includes(voice) || voice.includes(node);
   }
 
   /**
@@ -325,6 +388,21 @@ export class NodeManager {
       );
     });
 
+    node.on('onReconnectFailed', () => {
+      this.eventEmitter!.emit(
+        'debug',
+        `Node ${node.options.name} gave up reconnecting`
+      );
+    });
+
+    node.on('onSessionLost', (sessionId) => {
+      this.eventEmitter!.emit('nodeSessionLost', node, sessionId);
+      this.eventEmitter!.emit(
+        'debug',
+        `Node ${node.options.name} lost session ${sessionId}, starting a new one`
+      );
+    });
+
     node.on('onStats', (stats) => {
       this.eventEmitter!.emit('nodeStats', node, stats);
     });
@@ -339,7 +417,8 @@ export class NodeManager {
 }
 
 /**
- * Helper function to get the singleton instance
+ * Helper function to get the shared instance
+ * @deprecated Each Manager owns its own NodeManager; use `manager.nodeManager` instead
  */
 export function getNodeManager(): NodeManager {
   return NodeManager.getInstance();
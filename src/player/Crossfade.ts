@@ -0,0 +1,200 @@
+/**
+ * Crossfade - Fades between tracks using the filter volume
+ * Driven by playerUpdate positions: fades the current track out near its end,
+ * switches to the next queued track and fades it back in
+ */
+
+import { sleep } from '../utils/backoff';
+import type { Player } from './Player';
+import type { Track } from '../types/lavalink';
+import type { LavalinkEventEmitter } from '../manager/events';
+
+/** Number of volume steps per fade */
+const FADE_STEPS = 10;
+
+export class Crossfade {
+  private player: Player;
+  private eventEmitter: LavalinkEventEmitter;
+  private timer: NodeJS.Timeout | null = null;
+  // Incremented on every cancel so running fades can tell they were aborted
+  private generation: number = 0;
+  private fading: boolean = false;
+  private switching: boolean = false;
+
+  constructor(player: Player, eventEmitter: LavalinkEventEmitter) {
+    this.player = player;
+    this.eventEmitter = eventEmitter;
+  }
+
+  /**
+   * Whether a fade is currently in progress
+   */
+  public isFading(): boolean {
+    return this.fading;
+  }
+
+  /**
+   * Re-arm the fade-out timer from the latest known position
+   * Called on every playerUpdate
+   */
+  public update(position: number): void {
+    if (this.fading) {
+      return;
+    }
+
+    this.clearTimer();
+
+    const track = this.player.track;
+    const duration = this.player.crossfadeDuration;
+
+    if (
+      duration <= 0 ||
+      !track ||
+      track.info.isStream ||
+      this.player.paused ||
+      this.player.loopMode === 'track' ||
+      !this.player.queue.peek()
+    ) {
+      return;
+    }
+
+    const fadeOut = duration / 2;
+    const remaining = track.info.length - position;
+    const delay = Math.max(0, remaining - fadeOut);
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.run(track, Math.min(fadeOut, remaining)).catch((error) => {
+        this.eventEmitter.emit(
+          'debug',
+          `[Crossfade] Error: ${error instanceof Error ? error.message : String(error)}`
+        );
+      });
+    }, delay);
+  }
+
+  /**
+   * Abort a pending or running crossfade and restore the filter volume
+   * Ignored while the crossfade itself is switching tracks
+   */
+  public cancel(): void {
+    if (this.switching) {
+      return;
+    }
+
+    this.clearTimer();
+    this.generation++;
+
+    if (this.fading) {
+      this.fading = false;
+      this.eventEmitter.emit('debug', `[Crossfade] Cancelled for guild ${this.player.guildId}`);
+      void this.restoreVolume();
+    }
+  }
+
+  // ==================== Internal Methods ====================
+
+  private async run(track: Track, fadeOut: number): Promise<void> {
+    const generation = this.generation;
+    const fadeIn = this.player.crossfadeDuration / 2;
+
+    this.fading = true;
+    this.eventEmitter.emit(
+      'debug',
+      `[Crossfade] Fading out ${track.info.title} over ${Math.round(fadeOut)}ms`
+    );
+
+    if (!(await this.ramp('out', fadeOut, generation))) {
+      return;
+    }
+
+    // The track may have ended or been replaced while fading out
+    const next = this.player.queue.peek();
+    if (this.player.track !== track || !next) {
+      this.fading = false;
+      await this.setFilterVolume(this.baseVolume());
+      return;
+    }
+
+    if (this.player.loopMode === 'queue') {
+      this.player.queue.requeue(track);
+    }
+
+    this.switching = true;
+    try {
+      await this.player.play();
+    } catch (error) {
+      // The current track keeps playing, so bring it back from silence
+      this.fading = false;
+      await this.restoreVolume();
+      throw error;
+    } finally {
+      this.switching = false;
+    }
+
+    this.eventEmitter.emit(
+      'debug',
+      `[Crossfade] Switched to ${next.info.title}, fading in over ${Math.round(fadeIn)}ms`
+    );
+
+    if (!(await this.ramp('in', fadeIn, generation))) {
+      return;
+    }
+
+    this.fading = false;
+    this.eventEmitter.emit('debug', `[Crossfade] Completed for guild ${this.player.guildId}`);
+  }
+
+  /**
+   * Ramp the filter volume between silence and the base volume
+   * The base is re-read every step, so a new track's normalization gain is picked up while fading in
+   * Resolves false if the crossfade was cancelled
+   */
+  private async ramp(direction: 'in' | 'out', duration: number, generation: number): Promise<boolean> {
+    const interval = duration / FADE_STEPS;
+
+    for (let step = 1; step <= FADE_STEPS; step++) {
+      if (generation !== this.generation) {
+        return false;
+      }
+
+      const fraction = direction === 'in' ? step / FADE_STEPS : 1 - step / FADE_STEPS;
+      await this.setFilterVolume(this.baseVolume() * fraction);
+      await sleep(interval);
+    }
+
+    return generation === this.generation;
+  }
+
+  /**
+   * Filter volume outside of a fade: the user's filter volume with normalization applied
+   */
+  private baseVolume(): number {
+    return this.player.getAppliedFilters().volume ?? 1.0;
+  }
+
+  /**
+   * Set the filter volume back to the base volume, reporting failures as debug output
+   */
+  private async restoreVolume(): Promise<void> {
+    try {
+      await this.setFilterVolume(this.baseVolume());
+    } catch (error) {
+      this.eventEmitter.emit(
+        'debug',
+        `[Crossfade] Failed to restore volume: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  private async setFilterVolume(volume: number): Promise<void> {
+    await this.player.applyFilters({ volume });
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
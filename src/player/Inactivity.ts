@@ -0,0 +1,99 @@
+/**
+ * Inactivity - Auto-disconnect timers for a player
+ * One cancellable timer per reason (queue ended, paused too long, alone in the channel).
+ * When a timer expires the player is left via the playerAutoLeave event.
+ */
+
+import type { Player } from './Player';
+import type { InactivityOptions, InactivityReason } from '../types/lavalink';
+import type { LavalinkEventEmitter } from '../manager/events';
+
+export class Inactivity {
+  /** Timeouts in milliseconds (0 = disabled) */
+  public readonly options: Required<InactivityOptions>;
+
+  private player: Player;
+  private eventEmitter: LavalinkEventEmitter;
+  private timers: Map<InactivityReason, NodeJS.Timeout> = new Map();
+
+  constructor(player: Player, eventEmitter: LavalinkEventEmitter, options: InactivityOptions = {}) {
+    this.player = player;
+    this.eventEmitter = eventEmitter;
+    this.options = {
+      idleTimeout: options.idleTimeout ?? 0,
+      pausedTimeout: options.pausedTimeout ?? 0,
+      aloneTimeout: options.aloneTimeout ?? 0,
+    };
+  }
+
+  /**
+   * Start the timer for a reason, unless it is disabled or already running
+   */
+  public start(reason: InactivityReason): void {
+    const timeout = this.getTimeout(reason);
+    if (timeout <= 0 || this.timers.has(reason)) {
+      return;
+    }
+
+    this.timers.set(
+      reason,
+      setTimeout(() => this.expire(reason), timeout)
+    );
+
+    this.eventEmitter.emit('playerIdle', this.player, reason, timeout);
+    this.eventEmitter.emit(
+      'debug',
+      `[Inactivity] ${reason} timer started for guild ${this.player.guildId} (${timeout}ms)`
+    );
+  }
+
+  /**
+   * Cancel the timer for a reason, or every timer if no reason is given
+   */
+  public cancel(reason?: InactivityReason): void {
+    const reasons = reason ? [reason] : Array.from(this.timers.keys());
+
+    for (const key of reasons) {
+      const timer = this.timers.get(key);
+      if (timer) {
+        clearTimeout(timer);
+        this.timers.delete(key);
+        this.eventEmitter.emit(
+          'debug',
+          `[Inactivity] ${key} timer cancelled for guild ${this.player.guildId}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Check if a timer is running for a reason, or for any reason if none is given
+   */
+  public isPending(reason?: InactivityReason): boolean {
+    return reason ? this.timers.has(reason) : this.timers.size > 0;
+  }
+
+  // ==================== Internal Methods ====================
+
+  private expire(reason: InactivityReason): void {
+    this.timers.delete(reason);
+    this.cancel();
+
+    this.eventEmitter.emit(
+      'debug',
+      `[Inactivity] Leaving guild ${this.player.guildId} (${reason})`
+    );
+    this.eventEmitter.emit('playerAutoLeave', this.player, reason);
+  }
+
+  private getTimeout(reason: InactivityReason): number {
+    switch (reason) {
+      case 'queueEnd':
+        return this.options.idleTimeout;
+      case 'paused':
+        return this.options.pausedTimeout;
+      case 'alone':
+        return this.options.aloneTimeout;
+    }
+  }
+}
@@ -4,9 +4,21 @@
  */
 
 import { FilterBuilder } from './FilterBuilder';
+import { Queue } from './Queue';
+import { Crossfade } from './Crossfade';
+import { Inactivity } from './Inactivity';
+import { VoteSkip } from './VoteSkip';
 import { AutoPlay } from '../utils/autoplay';
+import { VolumeNormalizer } from '../utils/VolumeNormalizer';
+import { setRequester, attachRequester } from '../utils/requester';
+import { PLAYER_SNAPSHOT_VERSION, migratePlayerSnapshot } from '../utils/snapshot';
+import { VoiceConnectTimeoutError, PlayerNotFoundError, SessionNotFoundError } from '../utils/errors';
+import { getVoiceRegion } from '../utils/region';
 import type { Node } from '../nodes/Node';
+import type { NodeManager } from '../nodes/NodeManager';
+import type { VoiceForwarder, VoiceListener } from '../manager/VoiceForwarder';
 import type { LavalinkEventEmitter } from '../manager/events';
+import type { RequestControl } from '../utils/http';
 import type {
   PlayerOptions,
   Track,
@@ -14,6 +26,13 @@ import type {
   VoiceState,
   LoadResult,
   SearchPlatformType,
+  PlayerResponse,
+  UpdatePlayerPayload,
+  TrackRequester,
+  TimescaleFilter,
+  PlayerSnapshot,
+  VoteSkipResult,
+  PlayerStateDifference,
 } from '../types/lavalink';
 
 export interface PlayerState {
@@ -24,9 +43,21 @@ export interface PlayerState {
   ping: number;
 }
 
+/** Local and node positions further apart than this (ms) count as out of sync */
+const POSITION_TOLERANCE = 3000;
+
+/**
+ * Player updates merged while batching, waiting to be sent as one PATCH
+ */
+interface PendingUpdate {
+  payload: UpdatePlayerPayload;
+  noReplace: boolean;
+  waiters: Array<{ resolve: (response: PlayerResponse) => void; reject: (error: unknown) => void }>;
+}
+
 export class Player {
   public readonly guildId: string;
-  public readonly voiceChannelId: string;
+  public voiceChannelId: string;
   public textChannelId?: string;
 
   public node: Node;
@@ -37,8 +68,16 @@ export class Player {
   public connected: boolean = false;
   public ping: number = 0;
   public voiceState: Partial<VoiceState> = {};
-
-  public queue: Track[] = [];
+  /** Voice region derived from the Discord voice endpoint, e.g. 'us-east' */
+  public voiceRegion: string | null = null;
+  /** Other (non-bot) users in the voice channel, keyed by user ID; kept up to date by the manager */
+  public listeners: Map<string, VoiceListener> = new Map();
+
+  public readonly queue: Queue;
+  /** Auto-disconnect timers */
+  public readonly inactivity: Inactivity;
+  /** Skip votes for the current track */
+  public readonly voteSkips: VoteSkip;
   public previousTracks: Track[] = [];
   public history: Track[] = [];
 
@@ -52,11 +91,26 @@ export class Player {
   public volumeNormalization: boolean = false;
 
   private filterBuilder: FilterBuilder;
+  private crossfade: Crossfade;
+  private normalizer: VolumeNormalizer;
+  // Linear gain applied on top of the filter volume by volume normalization
+  private normalizationGain: number = 1.0;
+  // Encoded track the normalization gain was computed for
+  private normalizedTrack: string | null = null;
+  // Filters as last confirmed by Lavalink
+  private activeFilters: FilterOptions = {};
   private autoPlayEngine: AutoPlay;
   private eventEmitter: LavalinkEventEmitter;
   private autoPlay: boolean;
   private defaultSearchPlatform: SearchPlatformType;
-  // Configuration flags (not currently used directly; kept for future use)
+  private nodeManager: NodeManager | null;
+  private voiceForwarder: VoiceForwarder | null;
+  // Handshake in progress, shared by concurrent connect() calls
+  private connecting: Promise<void> | null = null;
+  // Nesting depth of batch() calls
+  private batchDepth: number = 0;
+  private pendingUpdate: PendingUpdate | null = null;
+  // Sent to Discord when joining or moving voice channels
   private readonly selfDeafen: boolean;
   private readonly selfMute: boolean;
   private positionUpdateInterval: NodeJS.Timeout | null = null;
@@ -67,7 +121,10 @@ export class Player {
     node: Node,
     eventEmitter: LavalinkEventEmitter,
     autoPlay: boolean = true,
-    defaultSearchPlatform: SearchPlatformType = 'ytsearch'
+    defaultSearchPlatform: SearchPlatformType = 'ytsearch',
+    nodeManager: NodeManager | null = null,
+    normalizer: VolumeNormalizer = new VolumeNormalizer(),
+    voiceForwarder: VoiceForwarder | null = null
   ) {
     this.guildId = options.guildId;
     this.voiceChannelId = options.voiceChannelId;
@@ -80,7 +137,17 @@ export class Player {
     this.eventEmitter = eventEmitter;
     this.autoPlay = autoPlay;
     this.defaultSearchPlatform = defaultSearchPlatform;
+    this.nodeManager = nodeManager;
+    this.normalizer = normalizer;
+    this.voiceForwarder = voiceForwarder;
+    this.volumeNormalization = normalizer.enabled;
+    this.queue = new Queue(this, eventEmitter, options.maxQueueSize ?? Infinity);
+    this.queue.fair = options.fairQueue ?? false;
+    this.queue.maxPerRequester = options.maxTracksPerRequester ?? Infinity;
     this.filterBuilder = new FilterBuilder(this);
+    this.crossfade = new Crossfade(this, eventEmitter);
+    this.inactivity = new Inactivity(this, eventEmitter, options.inactivity);
+    this.voteSkips = new VoteSkip(this, eventEmitter, options.voteSkip);
     this.autoPlayEngine = new AutoPlay();
   }
 
@@ -88,20 +155,87 @@ export class Player {
 
   /**
    * Connect to the voice channel
+   * Resolves once Discord sent both voice updates and Lavalink accepted the voice state;
+   * rejects with VoiceConnectTimeoutError after the timeout. Concurrent calls share one handshake.
+   */
+  public connect(timeout: number = 10000): Promise<void> {
+    if (!this.voiceForwarder) {
+      return Promise.reject(new Error('Player is not managed by a Manager'));
+    }
+
+    if (this.connected && this.voiceForwarder.getVoiceState(this.guildId)?.channelId === this.voiceChannelId) {
+      return Promise.resolve();
+    }
+
+    if (!this.connecting) {
+      this.connecting = this.handshake(this.voiceForwarder, timeout).finally(() => {
+        this.connecting = null;
+      });
+    }
+
+    return this.connecting;
+  }
+
+  /**
+   * Rejoin the voice channel with a fresh voice session
+   * Leaves the channel and joins it again, as Discord ignores a join for the current channel.
+   * Used when Discord invalidated or timed out the previous session
    */
-  public async connect(): Promise<void> {
-    this.eventEmitter.emit('debug', `Player connecting to guild ${this.guildId}`);
-    // Reference configuration flags to avoid unused warnings and document intent
-    const _config = { selfDeafen: this.selfDeafen, selfMute: this.selfMute };
-    void _config;
-    // Voice connection is handled by VoiceForwarder in Manager
-    // This just marks the player as ready to receive voice state updates
+  public async rejoin(timeout: number = 10000): Promise<void> {
+    if (!this.voiceForwarder) {
+      throw new Error('Player is not managed by a Manager');
+    }
+
+    this.connected = false;
+    this.voiceState = {};
+    this.voiceForwarder.beginRejoin(this.guildId, {
+      selfMute: this.selfMute,
+      selfDeaf: this.selfDeafen,
+    });
+
+    try {
+      await this.connect(timeout);
+    } finally {
+      this.voiceForwarder.endRejoin(this.guildId);
+    }
+  }
+
+  /**
+   * Move the bot to another voice channel
+   * Resolves once Discord confirmed the move and the voice state was forwarded to Lavalink
+   */
+  public async setVoiceChannel(channelId: string, timeout: number = 10000): Promise<void> {
+    if (!this.voiceForwarder) {
+      throw new Error('Player is not managed by a Manager');
+    }
+
+    // Discord sends no update when the bot is already in the channel
+    if (this.voiceForwarder.getVoiceState(this.guildId)?.channelId === channelId) {
+      return;
+    }
+
+    const moved = this.voiceForwarder.waitForVoiceState(
+      this.guildId,
+      (connection) => connection.channelId === channelId,
+      timeout,
+      () => new Error(`Timed out moving to voice channel ${channelId} after ${timeout}ms`)
+    );
+
+    this.voiceForwarder.sendVoiceUpdate(this.guildId, channelId, {
+      selfMute: this.selfMute,
+      selfDeaf: this.selfDeafen,
+    });
+
+    await moved;
+    this.eventEmitter.emit('debug', `Player for guild ${this.guildId} moved to voice channel ${channelId}`);
   }
 
   /**
    * Disconnect from the voice channel
    */
   public async disconnect(): Promise<void> {
+    this.crossfade.cancel();
+    this.inactivity.cancel();
     this.connected = false;
     this.clearPositionUpdate();
     this.eventEmitter.emit('debug', `Player disconnected from guild ${this.guildId}`);
@@ -109,34 +243,163 @@ export class Player {
 
   /**
    * Destroy the player and clean up resources
+   * Succeeds if the node no longer has the player (or its session)
    */
   public async destroy(): Promise<void> {
-    await this.stop();
+    try {
+      await this.stop();
+    } catch (error) {
+      if (!this.isGoneFromNode(error)) {
+        throw error;
+      }
+    }
+
     await this.disconnect();
-    await this.node.destroyPlayer(this.guildId);
+
+    try {
+      await this.node.destroyPlayer(this.guildId);
+    } catch (error) {
+      if (!this.isGoneFromNode(error)) {
+        throw error;
+      }
+    }
+
     this.eventEmitter.emit('playerDestroy', this);
   }
 
+  /**
+   * Move the player to another node, given as a Node or a node name
+   * Re-sends voice state, current track and position, volume, paused state and filters
+   */
+  public async moveNode(target: Node | string): Promise<void> {
+    const node = typeof target === 'string' ? this.nodeManager?.getNode(target) : target;
+
+    if (!node) {
+      throw new Error(`Node ${target as string} not found`);
+    }
+
+    if (node === this.node) {
+      return;
+    }
+
+    if (!node.isConnected()) {
+      throw new Error(`Node ${node.options.name} is not connected`);
+    }
+
+    const oldNode = this.node;
+    this.crossfade.cancel();
+
+    // The old node may already be gone; its player is discarded either way
+    if (oldNode.isConnected()) {
+      try {
+        await oldNode.destroyPlayer(this.guildId);
+      } catch (error) {
+        this.eventEmitter.emit(
+          'debug',
+          `Failed to destroy player on node ${oldNode.options.name}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+
+    this.node = node;
+    await this.sendFullState();
+
+    this.eventEmitter.emit('playerNodeMove', this, oldNode, node);
+    this.eventEmitter.emit(
+      'debug',
+      `Player for guild ${this.guildId} moved from node ${oldNode.options.name} to ${node.options.name}`
+    );
+  }
+
+  /**
+   * Re-create the player on its node from local state
+   * Used when the node started a new session and no longer has the player
+   */
+  public async rebuild(): Promise<void> {
+    this.crossfade.cancel();
+    await this.sendFullState();
+    this.eventEmitter.emit(
+      'debug',
+      `Player for guild ${this.guildId} rebuilt on node ${this.node.options.name}`
+    );
+  }
+
+  // ==================== Updates ====================
+
+  /**
+   * Send a player update to the node, resolving with the player state Lavalink returns
+   * While batching, the update is merged with the others made in the same tick.
+   * Local state is reconciled from the response.
+   */
+  public update(payload: UpdatePlayerPayload, noReplace: boolean = false): Promise<PlayerResponse> {
+    if (this.batchDepth === 0 && !this.pendingUpdate) {
+      return this.sendUpdate(payload, noReplace);
+    }
+
+    return new Promise((resolve, reject) => {
+      if (!this.pendingUpdate) {
+        this.pendingUpdate = { payload: {}, noReplace: false, waiters: [] };
+        queueMicrotask(() => this.flushUpdate());
+      }
+
+      this.mergeUpdate(this.pendingUpdate, payload, noReplace);
+      this.pendingUpdate.waiters.push({ resolve, reject });
+    });
+  }
+
+  /**
+   * Merge the player updates made inside fn into as few PATCH requests as possible
+   * Updates started in the same tick are sent together, so start them without awaiting each one:
+   * `await player.batch((p) => Promise.all([p.setVolume(50), p.setFilters(preset), p.pause()]))`.
+   * Every update still resolves (or rejects) on its own, with the merged request's result.
+   * Updates awaited one after another are not coalesced; each is sent before the next starts.
+   */
+  public async batch<T>(fn: (player: this) => T | Promise<T>): Promise<T> {
+    this.batchDepth++;
+    try {
+      return await fn(this);
+    } finally {
+      this.batchDepth--;
+      if (this.batchDepth === 0) {
+        this.flushUpdate();
+      }
+    }
+  }
+
   // ==================== Playback Control ====================
 
   /**
    * Play a track
    */
   public async play(track?: Track, options?: { startTime?: number; endTime?: number; noReplace?: boolean }): Promise<void> {
-    const trackToPlay = track || this.queue.shift();
+    this.crossfade.cancel();
+    const trackToPlay = track || this.queue.next();
     
     if (!trackToPlay) {
       throw new Error('No track provided and queue is empty');
     }
 
     this.track = trackToPlay;
+    this.inactivity.cancel('queueEnd');
 
-    await this.node.updatePlayer(
-      this.guildId,
+    // Send the new track's gain with the track so it is normalized from the start;
+    // with noReplace another track may keep playing, so wait for trackStart instead
+    if (!options?.noReplace) {
+      this.updateNormalizationGain(trackToPlay);
+    }
+
+    // Re-send volume and filters with every track so they survive recreated players
+    const filters = this.crossfade.isFading()
+      ? { ...this.getAppliedFilters(), volume: this.activeFilters.volume }
+      : this.getAppliedFilters();
+
+    await this.update(
       {
-        encodedTrack: trackToPlay.encoded,
+        track: { encoded: trackToPlay.encoded, userData: trackToPlay.userData },
         position: options?.startTime,
         endTime: options?.endTime,
+        volume: Math.floor(this.volume * 10),
+        filters,
       },
       options?.noReplace ?? false
     );
@@ -149,8 +412,15 @@ export class Player {
    * Pause playback
    */
   public async pause(pause: boolean = true): Promise<void> {
-    await this.node.updatePlayer(this.guildId, { paused: pause });
-    this.paused = pause;
+    this.crossfade.cancel();
+    await this.update({ paused: pause });
+
+    if (this.paused) {
+      this.inactivity.start('paused');
+    } else {
+      this.inactivity.cancel('paused');
+    }
+
     this.eventEmitter.emit('debug', `Player ${pause ? 'paused' : 'resumed'}`);
   }
 
@@ -165,7 +435,8 @@ export class Player {
    * Stop playback
    */
   public async stop(): Promise<void> {
-    await this.node.updatePlayer(this.guildId, { encodedTrack: null });
+    this.crossfade.cancel();
+    await this.update({ encodedTrack: null });
     this.track = null;
     this.position = 0;
     this.clearPositionUpdate();
@@ -184,7 +455,9 @@ export class Player {
       throw new Error('Position out of bounds');
     }
 
-    await this.node.updatePlayer(this.guildId, { position });
+    this.crossfade.cancel();
+
+    await this.update({ position });
     this.position = position;
     this.eventEmitter.emit('debug', `Seeked to position: ${position}ms`);
   }
@@ -199,8 +472,7 @@ export class Player {
 
     // Lavalink v4 accepts volume as 0-1000, but we expose 0-100 for better UX
     const lavalinkVolume = Math.floor(volume * 10);
-    await this.node.updatePlayer(this.guildId, { volume: lavalinkVolume });
-    this.volume = volume;
+    await this.update({ volume: lavalinkVolume });
     this.eventEmitter.emit('debug', `Volume set to: ${volume}%`);
   }
 
@@ -214,53 +486,80 @@ export class Player {
   }
 
   /**
-   * Set filters directly
+   * Set filters directly, replacing the builder's configuration
    */
   public async setFilters(filters: FilterOptions): Promise<void> {
-    await this.node.updatePlayer(this.guildId, { filters });
+    this.filterBuilder.setFilters(filters);
+    await this.applyFilters();
     this.eventEmitter.emit('debug', 'Filters updated');
   }
 
+  /**
+   * Send the builder's filters to Lavalink, with optional one-off overrides
+   * Every filter update goes through here so the player's filter state stays authoritative
+   */
+  public async applyFilters(overrides: Partial<FilterOptions> = {}): Promise<FilterOptions> {
+    const filters = { ...this.getAppliedFilters(), ...overrides };
+    await this.update({ filters });
+    return this.getActiveFilters();
+  }
+
+  /**
+   * Get the filters Lavalink reported after the last update
+   */
+  public getActiveFilters(): FilterOptions {
+    return { ...this.activeFilters };
+  }
+
+  /**
+   * Get filters as sent to Lavalink, with the normalization gain applied to the filter volume
+   */
+  public getAppliedFilters(filters: FilterOptions = this.filterBuilder.getFilters()): FilterOptions {
+    if (this.normalizationGain === 1.0) {
+      return filters;
+    }
+
+    const volume = Math.min(5, (filters.volume ?? 1.0) * this.normalizationGain);
+    return { ...filters, volume };
+  }
+
   /**
    * Clear all filters
    */
   public async clearFilters(): Promise<void> {
-    await this.setFilters({});
     this.filterBuilder.clear();
+    await this.applyFilters();
     this.eventEmitter.emit('debug', 'Filters cleared');
   }
 
   // ==================== Queue Management ====================
 
   /**
-   * Add a track to the queue
+   * Add a track to the queue, optionally attributing it to a requester
    */
-  public addTrack(track: Track): void {
-    this.queue.push(track);
+  public addTrack(track: Track, requester?: TrackRequester): void {
+    this.queue.add(requester ? setRequester(track, requester) : track);
   }
 
   /**
-   * Add multiple tracks to the queue
+   * Add multiple tracks to the queue, optionally attributing them to a requester
    */
-  public addTracks(tracks: Track[]): void {
-    this.queue.push(...tracks);
+  public addTracks(tracks: Track[], requester?: TrackRequester): void {
+    this.queue.add(requester ? tracks.map((track) => setRequester(track, requester)) : tracks);
   }
 
   /**
    * Remove a track from the queue by index
    */
   public removeTrack(index: number): Track | undefined {
-    if (index < 0 || index >= this.queue.length) {
-      return undefined;
-    }
-    return this.queue.splice(index, 1)[0];
+    return this.queue.remove(index);
   }
 
   /**
    * Clear the queue
    */
   public clearQueue(): void {
-    this.queue = [];
+    this.queue.clear();
   }
 
   /**
@@ -271,6 +570,15 @@ export class Player {
     this.eventEmitter.emit('debug', `Loop mode set to: ${mode}`);
   }
 
+  /**
+   * Enable/disable fair queue mode (round-robin across requesters)
+   * The queue keeps its insertion order, so this can be switched at any time
+   */
+  public setFairQueue(enabled: boolean): void {
+    this.queue.fair = enabled;
+    this.eventEmitter.emit('debug', `Fair queue ${enabled ? 'enabled' : 'disabled'}`);
+  }
+
   /**
    * Get playback history
    */
@@ -286,44 +594,57 @@ export class Player {
   }
 
   /**
-   * Set crossfade duration
+   * Set crossfade duration (0 disables crossfade)
+   * The current track fades out over the first half and the next track fades in over the second half
    */
   public setCrossfade(duration: number): void {
     this.crossfadeDuration = Math.max(0, duration);
+    if (this.crossfadeDuration === 0) {
+      this.crossfade.cancel();
+    }
     this.eventEmitter.emit('debug', `Crossfade duration set to: ${duration}ms`);
   }
 
   /**
    * Enable/disable volume normalization
+   * The gain is applied through the filter volume, so the listener's volume is preserved
    */
-  public setVolumeNormalization(enabled: boolean): void {
+  public async setVolumeNormalization(enabled: boolean): Promise<void> {
     this.volumeNormalization = enabled;
+    this.normalizedTrack = null;
+    this.normalizationGain = 1.0;
+    if (this.track) {
+      this.updateNormalizationGain(this.track);
+    }
+
+    if (this.track) {
+      await this.applyFilters();
+    }
+
     this.eventEmitter.emit('debug', `Volume normalization ${enabled ? 'enabled' : 'disabled'}`);
   }
 
   /**
    * Set playback speed (independent of pitch)
+   * Keeps the current pitch, rate and all other filters
    */
   public async setSpeed(speed: number): Promise<void> {
     if (speed < 0.25 || speed > 3.0) {
       throw new Error('Speed must be between 0.25 and 3.0');
     }
-    await this.node.updatePlayer(this.guildId, {
-      filters: { timescale: { speed, pitch: 1.0, rate: 1.0 } }
-    });
+    await this.updateTimescale({ speed });
     this.eventEmitter.emit('debug', `Speed set to: ${speed}x`);
   }
 
   /**
    * Set playback pitch (independent of speed)
+   * Keeps the current speed, rate and all other filters
    */
   public async setPitch(pitch: number): Promise<void> {
     if (pitch < 0.25 || pitch > 3.0) {
       throw new Error('Pitch must be between 0.25 and 3.0');
     }
-    await this.node.updatePlayer(this.guildId, {
-      filters: { timescale: { speed: 1.0, pitch, rate: 1.0 } }
-    });
+    await this.updateTimescale({ pitch });
     this.eventEmitter.emit('debug', `Pitch set to: ${pitch}x`);
   }
 
@@ -334,60 +655,100 @@ export class Player {
     if (speed < 0.25 || speed > 3.0 || pitch < 0.25 || pitch > 3.0) {
       throw new Error('Speed and pitch must be between 0.25 and 3.0');
     }
-    await this.node.updatePlayer(this.guildId, {
-      filters: { timescale: { speed, pitch, rate: 1.0 } }
-    });
+    await this.updateTimescale({ speed, pitch });
     this.eventEmitter.emit('debug', `Speed set to: ${speed}x, Pitch set to: ${pitch}x`);
   }
 
   /**
-   * Save queue to JSON for persistence
+   * Capture the player's channels, queue, playback state, volume, filters and history
    */
-  public saveQueue(): string {
-    return JSON.stringify({
-      queue: this.queue,
+  public toSnapshot(): PlayerSnapshot {
+    return {
+      version: PLAYER_SNAPSHOT_VERSION,
+      guildId: this.guildId,
+      voiceChannelId: this.voiceChannelId,
+      textChannelId: this.textChannelId,
+      selfDeafen: this.selfDeafen,
+      selfMute: this.selfMute,
+      queue: this.queue.toArray(),
       currentTrack: this.track,
       position: this.position,
       volume: this.volume,
       loopMode: this.loopMode,
       paused: this.paused,
-    });
+      filters: this.filterBuilder.getFilters(),
+      history: [...this.history],
+      previousTracks: [...this.previousTracks],
+    };
+  }
+
+  /**
+   * Restore a snapshot taken with toSnapshot()
+   * Volume and filters are applied together with the current track, or with the next track played.
+   * The guild and voice channel are not changed; use Manager.restore() to recreate players.
+   */
+  public async restoreSnapshot(snapshot: PlayerSnapshot): Promise<void> {
+    if (snapshot.volume < 0 || snapshot.volume > 100) {
+      throw new Error('Volume must be between 0 and 100');
+    }
+
+    // Checked against the queue limits before anything is replaced
+    this.queue.replace(snapshot.queue);
+    this.loopMode = snapshot.loopMode;
+    this.volume = snapshot.volume;
+    this.filterBuilder.setFilters(snapshot.filters);
+    this.history = [...snapshot.history];
+    this.previousTracks = [...snapshot.previousTracks];
+    if (snapshot.textChannelId !== undefined) {
+      this.textChannelId = snapshot.textChannelId;
+    }
+
+    if (snapshot.currentTrack) {
+      await this.play(snapshot.currentTrack, { startTime: snapshot.position });
+      if (snapshot.paused) {
+        await this.pause();
+      }
+    }
+
+    this.eventEmitter.emit('debug', `Snapshot restored for guild ${this.guildId}`);
+  }
+
+  /**
+   * Save queue to JSON for persistence
+   */
+  public saveQueue(): string {
+    return JSON.stringify(this.toSnapshot());
   }
 
   /**
    * Restore queue from JSON
+   * Older snapshot versions are migrated to the current format
    */
   public async restoreQueue(data: string): Promise<void> {
+    let snapshot: PlayerSnapshot;
     try {
-      const saved = JSON.parse(data);
-      this.queue = saved.queue || [];
-      this.loopMode = saved.loopMode || 'off';
-      
-      if (saved.volume !== undefined) {
-        await this.setVolume(saved.volume);
-      }
-      
-      if (saved.currentTrack) {
-        await this.play(saved.currentTrack, { startTime: saved.position || 0 });
-        if (saved.paused) {
-          await this.pause();
-        }
-      }
-      
-      this.eventEmitter.emit('debug', 'Queue restored from save');
+      const saved = JSON.parse(data) as Record<string, unknown>;
+      // Saves from before version 2 don't record the guild and channel
+      snapshot = migratePlayerSnapshot({
+        guildId: this.guildId,
+        voiceChannelId: this.voiceChannelId,
+        ...saved,
+      });
     } catch (error) {
-      throw new Error(`Failed to restore queue: ${error}`);
+      throw new Error(
+        `Failed to restore queue: ${error instanceof Error ? error.message : String(error)}`
+      );
     }
+
+    await this.restoreSnapshot(snapshot);
+    this.eventEmitter.emit('debug', 'Queue restored from save');
   }
 
   /**
    * Shuffle the queue
    */
   public shuffleQueue(): void {
-    for (let i = this.queue.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [this.queue[i], this.queue[j]] = [this.queue[j], this.queue[i]];
-    }
+    this.queue.shuffle();
   }
 
   /**
@@ -403,6 +764,22 @@ export class Player {
     return true;
   }
 
+  /**
+   * Vote to skip the current track
+   * Skips once enough listeners voted, or immediately for a privileged user
+   */
+  public async voteSkip(userId: string): Promise<VoteSkipResult> {
+    return this.voteSkips.vote(userId);
+  }
+
+  /**
+   * Skip to the track at a queue index, dropping the tracks before it
+   */
+  public async skipTo(index: number): Promise<void> {
+    this.queue.skipTo(index);
+    await this.play(this.queue.shift());
+  }
+
   /**
    * Play the previous track
    */
@@ -426,21 +803,28 @@ export class Player {
    */
   public async search(
     query: string,
-    platform?: SearchPlatformType
+    platform?: SearchPlatformType,
+    requester?: TrackRequester,
+    control?: RequestControl
   ): Promise<LoadResult> {
     // If query is a URL, don't add search prefix
     const isUrl = /^https?:\/\//.test(query);
     const searchPlatform = platform ?? this.defaultSearchPlatform;
     const identifier = isUrl ? query : `${searchPlatform}:${query}`;
     this.eventEmitter.emit('debug', `Searching: ${identifier}`);
-    return this.node.loadTracks(identifier);
+    return this.load(identifier, requester, control);
   }
 
   /**
    * Load tracks from a URL or search query
    */
-  public async load(identifier: string): Promise<LoadResult> {
-    return this.node.loadTracks(identifier);
+  public async load(
+    identifier: string,
+    requester?: TrackRequester,
+    control?: RequestControl
+  ): Promise<LoadResult> {
+    const result = await this.node.loadTracks(identifier, control);
+    return requester ? attachRequester(result, requester) : result;
   }
 
   // ==================== Voice State Management ====================
@@ -450,6 +834,9 @@ export class Player {
    */
   public async updateVoiceState(state: Partial<VoiceState>): Promise<void> {
     this.voiceState = { ...this.voiceState, ...state };
+    if (state.endpoint) {
+      this.voiceRegion = getVoiceRegion(state.endpoint);
+    }
 
     // If we have complete voice state, update the player
     if (
@@ -457,9 +844,26 @@ export class Player {
       this.voiceState.endpoint &&
       this.voiceState.sessionId
     ) {
-      await this.node.updatePlayer(this.guildId, {
-        voice: this.voiceState as VoiceState,
-      });
+      // Moving to a node in the voice region sends the voice state as well
+      const regionalNode = this.getRegionalNode();
+      if (regionalNode) {
+        this.eventEmitter.emit(
+          'debug',
+          `Moving player for guild ${this.guildId} to node ${regionalNode.options.name} for voice region ${this.voiceRegion}`
+        );
+        try {
+          await this.moveNode(regionalNode);
+          this.connected = true;
+          return;
+        } catch (error) {
+          this.eventEmitter.emit(
+            'debug',
+            `Failed to move player for guild ${this.guildId} to its voice region: ${error instanceof Error ? error.message : String(error)}`
+          );
+        }
+      }
+
+      await this.update({ voice: this.voiceState as VoiceState });
       this.connected = true;
       this.eventEmitter.emit('debug', `Voice state updated for guild ${this.guildId}`);
     }
@@ -474,6 +878,17 @@ export class Player {
     this.position = state.position;
     this.connected = state.connected;
     this.ping = state.ping;
+    this.crossfade.update(state.position);
+  }
+
+  /**
+   * Reconcile local state with the player on the node, fetching it unless a response is given
+   * (e.g. after a session resume). Emits playerStateDesync if they disagreed
+   */
+  public async refresh(response?: PlayerResponse): Promise<PlayerResponse> {
+    const state = response ?? (await this.node.getPlayer(this.guildId));
+    this.reconcile(state, null);
+    return state;
   }
 
   /**
@@ -500,23 +915,233 @@ export class Player {
    * Get total queue duration
    */
   public getQueueDuration(): number {
-    return this.queue.reduce((total, track) => total + track.info.length, 0);
+    return this.queue.duration;
   }
 
   /**
    * Move track in queue
    */
   public moveTrack(from: number, to: number): boolean {
-    if (from < 0 || from >= this.queue.length || to < 0 || to >= this.queue.length) {
-      return false;
+    return this.queue.move(from, to);
+  }
+
+  // ==================== Internal Methods ====================
+
+  /**
+   * Send voice state, current track and position, volume, paused state and filters to the node
+   */
+  private async sendFullState(): Promise<void> {
+    const payload: UpdatePlayerPayload = {
+      volume: Math.floor(this.volume * 10),
+      paused: this.paused,
+      filters: this.getAppliedFilters(),
+    };
+
+    if (this.voiceState.token && this.voiceState.endpoint && this.voiceState.sessionId) {
+      payload.voice = this.voiceState as VoiceState;
     }
 
-    const [track] = this.queue.splice(from, 1);
-    this.queue.splice(to, 0, track);
-    return true;
+    if (this.track) {
+      payload.track = { encoded: this.track.encoded, userData: this.track.userData };
+      payload.position = this.position;
+    }
+
+    await this.sendUpdate(payload);
   }
 
-  // ==================== Internal Methods ====================
+  /**
+   * Send an update and reconcile local state from its response
+   */
+  private async sendUpdate(payload: UpdatePlayerPayload, noReplace: boolean = false): Promise<PlayerResponse> {
+    const response = await this.node.updatePlayer(this.guildId, payload, noReplace);
+    this.reconcile(response, payload, noReplace);
+    return response;
+  }
+
+  /**
+   * Adopt the state the node reported, emitting playerStateDesync where it differs from what was expected
+   * After an update, only the fields it sent are compared and adopted, as a concurrent update
+   * may have changed the others since; tracks likewise, since the response may predate a track
+   * end received over the WebSocket. Refreshing compares everything, including positions
+   */
+  private reconcile(response: PlayerResponse, sent: UpdatePlayerPayload | null, noReplace: boolean = false): void {
+    const differences: PlayerStateDifference[] = [];
+
+    // Volume is compared in Lavalink units (0-1000)
+    if (!sent || sent.volume !== undefined) {
+      const volume = sent?.volume ?? Math.floor(this.volume * 10);
+      if (response.volume !== volume) {
+        differences.push({ field: 'volume', local: volume / 10, remote: response.volume / 10 });
+        this.volume = response.volume / 10;
+      } else if (sent?.volume !== undefined) {
+        this.volume = sent.volume / 10;
+      }
+    }
+
+    if (!sent || sent.paused !== undefined) {
+      const paused = sent?.paused ?? this.paused;
+      if (response.paused !== paused) {
+        differences.push({ field: 'paused', local: paused, remote: response.paused });
+      }
+      this.paused = response.paused;
+    }
+
+    // With noReplace the node keeps a playing track, and a track sent by identifier can't be compared
+    const comparable = sent
+      ? (sent.track !== undefined || sent.encodedTrack !== undefined) &&
+        !noReplace &&
+        !sent.identifier &&
+        !sent.track?.identifier
+      : true;
+    if (comparable) {
+      const encoded = sent
+        ? (sent.track?.encoded ?? sent.encodedTrack ?? null)
+        : (this.track?.encoded ?? null);
+      const remoteEncoded = response.track?.encoded ?? null;
+
+      if (encoded !== remoteEncoded) {
+        differences.push({ field: 'track', local: encoded, remote: remoteEncoded });
+        this.track = response.track;
+        if (this.track) {
+          this.startPositionUpdate();
+        } else {
+          this.position = 0;
+          this.clearPositionUpdate();
+        }
+      }
+    }
+
+    if (!sent) {
+      if (response.track && Math.abs(response.state.position - this.position) > POSITION_TOLERANCE) {
+        differences.push({ field: 'position', local: this.position, remote: response.state.position });
+      }
+      this.position = response.state.position;
+      this.connected = response.state.connected;
+      this.ping = response.state.ping;
+    }
+
+    if (!sent || sent.filters !== undefined) {
+      this.activeFilters = { ...(response.filters ?? sent?.filters ?? this.activeFilters) };
+    }
+
+    if (differences.length > 0) {
+      this.eventEmitter.emit('playerStateDesync', this, differences);
+      this.eventEmitter.emit(
+        'debug',
+        `Player state for guild ${this.guildId} differed from node ${this.node.options.name}: ${differences
+          .map((difference) => `${difference.field} ${String(difference.local)} -> ${String(difference.remote)}`)
+          .join(', ')}`
+      );
+    }
+  }
+
+  /**
+   * Send the merged updates waiting to be flushed
+   */
+  private flushUpdate(): void {
+    const pending = this.pendingUpdate;
+    if (!pending) {
+      return;
+    }
+
+    this.pendingUpdate = null;
+    if (pending.waiters.length > 1) {
+      this.eventEmitter.emit(
+        'debug',
+        `Merged ${pending.waiters.length} updates for guild ${this.guildId} into one request`
+      );
+    }
+
+    this.sendUpdate(pending.payload, pending.noReplace).then(
+      (response) => pending.waiters.forEach((waiter) => waiter.resolve(response)),
+      (error) => pending.waiters.forEach((waiter) => waiter.reject(error))
+    );
+  }
+
+  /**
+   * Merge an update into the pending one; later values win
+   * A new track replaces the previous one along with its position, end time and noReplace flag
+   */
+  private mergeUpdate(pending: PendingUpdate, payload: UpdatePlayerPayload, noReplace: boolean): void {
+    const merged = pending.payload;
+
+    if (payload.track !== undefined || payload.encodedTrack !== undefined || payload.identifier !== undefined) {
+      delete merged.track;
+      delete merged.encodedTrack;
+      delete merged.identifier;
+      delete merged.position;
+      delete merged.endTime;
+      pending.noReplace = noReplace;
+    }
+
+    for (const [key, value] of Object.entries(payload) as [keyof UpdatePlayerPayload, unknown][]) {
+      if (value !== undefined) {
+        (merged as Record<string, unknown>)[key] = value;
+      }
+    }
+  }
+
+  /**
+   * Whether a request failed because the node no longer has the player
+   */
+  private isGoneFromNode(error: unknown): boolean {
+    return error instanceof PlayerNotFoundError || error instanceof SessionNotFoundError;
+  }
+
+  /**
+   * A better node for the player's voice region, or null if the current node
+   * serves the region or no node does
+   */
+  private getRegionalNode(): Node | null {
+    if (!this.nodeManager || !this.voiceRegion) {
+      return null;
+    }
+
+    const regionalNodes = this.nodeManager.getRegionalNodes(this.voiceRegion);
+    if (regionalNodes.length === 0 || regionalNodes.includes(this.node)) {
+      return null;
+    }
+
+    return this.nodeManager.getBestNode(this.voiceRegion);
+  }
+
+  private async handshake(voiceForwarder: VoiceForwarder, timeout: number): Promise<void> {
+    const channelId = this.voiceChannelId;
+    this.eventEmitter.emit('debug', `Player connecting to voice channel ${channelId} in guild ${this.guildId}`);
+
+    const connected = voiceForwarder.waitForVoiceState(
+      this.guildId,
+      (connection) => connection.channelId === channelId && this.connected,
+      timeout,
+      () => {
+        const connection = voiceForwarder.getVoiceState(this.guildId);
+        return new VoiceConnectTimeoutError(
+          this.guildId,
+          channelId,
+          timeout,
+          connection?.sessionId !== undefined,
+          connection?.token !== undefined
+        );
+      }
+    );
+
+    voiceForwarder.sendVoiceUpdate(this.guildId, channelId, {
+      selfMute: this.selfMute,
+      selfDeaf: this.selfDeafen,
+    });
+
+    await connected;
+    this.eventEmitter.emit('debug', `Player connected to voice channel ${channelId} in guild ${this.guildId}`);
+  }
+
+  /**
+   * Merge values into the current timescale filter and apply
+   */
+  private async updateTimescale(timescale: TimescaleFilter): Promise<void> {
+    const current = this.filterBuilder.getFilters().timescale ?? {};
+    this.filterBuilder.timescale({ ...current, ...timescale });
+    await this.applyFilters();
+  }
 
   /**
    * Start position update interval
@@ -544,6 +1169,39 @@ export class Player {
     }
   }
 
+  /**
+   * Handle track start (called by Manager)
+   */
+  public async handleTrackStart(track: Track): Promise<void> {
+    this.voteSkips.reset();
+
+    // Tracks started by play() were normalized in the same update;
+    // a running crossfade ramps towards the normalized volume itself
+    if (!this.updateNormalizationGain(track) || this.crossfade.isFading()) {
+      return;
+    }
+
+    await this.applyFilters();
+  }
+
+  /**
+   * Compute the normalization gain for a track unless it already was
+   * Returns whether the gain was computed
+   */
+  private updateNormalizationGain(track: Track): boolean {
+    if (!this.volumeNormalization || this.normalizedTrack === track.encoded) {
+      return false;
+    }
+
+    this.normalizedTrack = track.encoded;
+    this.normalizationGain = this.normalizer.computeGain(track);
+    this.eventEmitter.emit(
+      'debug',
+      `Normalization gain for ${track.info.title}: ${this.normalizationGain.toFixed(2)}`
+    );
+    return true;
+  }
+
   /**
    * Handle track end (called by Manager)
    */
@@ -591,7 +1249,7 @@ export class Player {
 
     if (reason === 'finished' && this.loopMode === 'queue') {
       // Add ended track back to end of queue
-      this.queue.push(endedTrack);
+      this.queue.requeue(endedTrack);
     }
 
     // Auto-play next track from queue if available
@@ -620,6 +1278,7 @@ export class Player {
     if (this.queue.length === 0 && !this.track) {
       this.eventEmitter.emit('debug', 'Queue is empty, emitting queueEnd');
       this.eventEmitter.emit('queueEnd', this);
+      this.inactivity.start('queueEnd');
     }
   }
 }
@@ -0,0 +1,420 @@
+/**
+ * Queue - Ordered list of upcoming tracks for a player
+ * Provides indexed insertion, range removal, pagination, search and typed change events
+ *
+ * In fair mode the next track is picked round-robin across requesters. Tracks keep
+ * their insertion order either way, so fair mode can be toggled at any time.
+ */
+
+import { getRequester } from '../utils/requester';
+import type { Track } from '../types/lavalink';
+import type { LavalinkEventEmitter } from '../manager/events';
+import type { Player } from './Player';
+
+export interface QueueSearchResult {
+  /** Index of the track in the queue */
+  index: number;
+  track: Track;
+}
+
+export class Queue implements Iterable<Track> {
+  /** Maximum number of tracks (Infinity = unlimited) */
+  public maxSize: number;
+  /** Maximum number of tracks per requester (Infinity = unlimited) */
+  public maxPerRequester: number = Infinity;
+  /** Pick the next track round-robin across requesters instead of FIFO */
+  public fair: boolean = false;
+
+  private tracks: Track[] = [];
+  private player: Player;
+  private eventEmitter: LavalinkEventEmitter;
+  // Serial number of the last time each requester was served (fair mode)
+  private lastServed: Map<string, number> = new Map();
+  private serveCounter: number = 0;
+
+  constructor(player: Player, eventEmitter: LavalinkEventEmitter, maxSize: number = Infinity) {
+    this.player = player;
+    this.eventEmitter = eventEmitter;
+    this.maxSize = maxSize;
+  }
+
+  // ==================== Accessors ====================
+
+  /**
+   * Number of tracks in the queue
+   */
+  public get length(): number {
+    return this.tracks.length;
+  }
+
+  /**
+   * Total duration of the queue in milliseconds
+   */
+  public get duration(): number {
+    return this.tracks.reduce((total, track) => total + track.info.length, 0);
+  }
+
+  /**
+   * Check if the queue is empty
+   */
+  public isEmpty(): boolean {
+    return this.tracks.length === 0;
+  }
+
+  /**
+   * Check if the queue has reached its maximum size
+   */
+  public isFull(): boolean {
+    return this.tracks.length >= this.maxSize;
+  }
+
+  /**
+   * Get the track at an index
+   */
+  public get(index: number): Track | undefined {
+    return this.tracks[index];
+  }
+
+  /**
+   * Get the track that will play next (respects fair mode)
+   */
+  public peek(): Track | undefined {
+    return this.tracks[this.nextIndex()];
+  }
+
+  /**
+   * Get a copy of the tracks between start and end (end exclusive)
+   */
+  public slice(start?: number, end?: number): Track[] {
+    return this.tracks.slice(start, end);
+  }
+
+  /**
+   * Get a page of tracks (pages start at 1)
+   */
+  public page(page: number, pageSize: number = 10): Track[] {
+    if (page < 1 || pageSize < 1) {
+      return [];
+    }
+    const start = (page - 1) * pageSize;
+    return this.tracks.slice(start, start + pageSize);
+  }
+
+  /**
+   * Get the number of pages for a page size
+   */
+  public totalPages(pageSize: number = 10): number {
+    return Math.max(1, Math.ceil(this.tracks.length / pageSize));
+  }
+
+  /**
+   * Search tracks by title or author (case-insensitive)
+   */
+  public search(query: string): QueueSearchResult[] {
+    const needle = query.toLowerCase();
+    const results: QueueSearchResult[] = [];
+
+    this.tracks.forEach((track, index) => {
+      if (
+        track.info.title.toLowerCase().includes(needle) ||
+        track.info.author.toLowerCase().includes(needle)
+      ) {
+        results.push({ index, track });
+      }
+    });
+
+    return results;
+  }
+
+  /**
+   * Get the tracks requested by a user
+   */
+  public getByRequester(userId: string): Track[] {
+    return this.tracks.filter((track) => getRequester(track)?.id === userId);
+  }
+
+  /**
+   * Get a copy of all tracks
+   */
+  public toArray(): Track[] {
+    return [...this.tracks];
+  }
+
+  /**
+   * Serialize as a plain track array
+   */
+  public toJSON(): Track[] {
+    return this.toArray();
+  }
+
+  public [Symbol.iterator](): Iterator<Track> {
+    return this.tracks[Symbol.iterator]();
+  }
+
+  // ==================== Mutations ====================
+
+  /**
+   * Add one or more tracks to the end of the queue
+   */
+  public add(tracks: Track | Track[]): void {
+    this.addAt(this.tracks.length, tracks);
+  }
+
+  /**
+   * Insert one or more tracks at an index
+   */
+  public addAt(index: number, tracks: Track | Track[]): void {
+    const toAdd = Array.isArray(tracks) ? tracks : [tracks];
+
+    if (index < 0 || index > this.tracks.length) {
+      throw new Error('Queue index out of bounds');
+    }
+
+    this.checkLimits(this.tracks, toAdd);
+
+    if (toAdd.length === 0) {
+      return;
+    }
+
+    this.tracks.splice(index, 0, ...toAdd);
+    // Something new was queued, so the player is no longer idle
+    this.player.inactivity.cancel('queueEnd');
+    this.eventEmitter.emit('queueAdd', this.player, toAdd);
+  }
+
+  /**
+   * Remove a track by index
+   */
+  public remove(index: number): Track | undefined {
+    if (index < 0 || index >= this.tracks.length) {
+      return undefined;
+    }
+
+    const [removed] = this.tracks.splice(index, 1);
+    this.eventEmitter.emit('queueRemove', this.player, [removed]);
+    return removed;
+  }
+
+  /**
+   * Remove tracks between start and end (end exclusive)
+   */
+  public removeRange(start: number, end: number): Track[] {
+    const from = Math.max(0, start);
+    const to = Math.min(this.tracks.length, end);
+
+    if (from >= to) {
+      return [];
+    }
+
+    const removed = this.tracks.splice(from, to - from);
+    this.eventEmitter.emit('queueRemove', this.player, removed);
+    return removed;
+  }
+
+  /**
+   * Move a track from one index to another
+   */
+  public move(from: number, to: number): boolean {
+    if (from < 0 || from >= this.tracks.length || to < 0 || to >= this.tracks.length) {
+      return false;
+    }
+
+    const [track] = this.tracks.splice(from, 1);
+    this.tracks.splice(to, 0, track);
+    return true;
+  }
+
+  /**
+   * Drop every track before an index, so the track at that index is next
+   * Returns the dropped tracks
+   */
+  public skipTo(index: number): Track[] {
+    if (index < 0 || index >= this.tracks.length) {
+      throw new Error('Queue index out of bounds');
+    }
+
+    return this.removeRange(0, index);
+  }
+
+  /**
+   * Remove duplicate tracks, keeping the first occurrence
+   * Returns the removed tracks
+   */
+  public dedupe(): Track[] {
+    const seen = new Set<string>();
+    const kept: Track[] = [];
+    const removed: Track[] = [];
+
+    for (const track of this.tracks) {
+      if (seen.has(track.encoded)) {
+        removed.push(track);
+      } else {
+        seen.add(track.encoded);
+        kept.push(track);
+      }
+    }
+
+    if (removed.length > 0) {
+      this.tracks = kept;
+      this.eventEmitter.emit('queueRemove', this.player, removed);
+    }
+
+    return removed;
+  }
+
+  /**
+   * Shuffle the queue
+   */
+  public shuffle(): void {
+    for (let i = this.tracks.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [this.tracks[i], this.tracks[j]] = [this.tracks[j], this.tracks[i]];
+    }
+    this.eventEmitter.emit('queueShuffle', this.player);
+  }
+
+  /**
+   * Remove all tracks
+   * Returns the removed tracks
+   */
+  public clear(): Track[] {
+    const removed = this.tracks;
+    this.tracks = [];
+
+    if (removed.length > 0) {
+      this.eventEmitter.emit('queueRemove', this.player, removed);
+    }
+
+    return removed;
+  }
+
+  /**
+   * Replace all tracks
+   * The queue is left unchanged if the new tracks exceed its limits. Returns the removed tracks
+   */
+  public replace(tracks: Track[]): Track[] {
+    this.checkLimits([], tracks);
+
+    const removed = this.clear();
+    this.add(tracks);
+    return removed;
+  }
+
+  // ==================== Playback ====================
+  // Used while advancing playback; these do not emit queue events or enforce limits
+
+  /**
+   * Take the next track to play (round-robin across requesters in fair mode)
+   */
+  public next(): Track | undefined {
+    if (this.tracks.length === 0) {
+      return undefined;
+    }
+
+    const [track] = this.tracks.splice(this.nextIndex(), 1);
+    this.markServed(track);
+    return track;
+  }
+
+  /**
+   * Take the track off the front of the queue, ignoring fair mode
+   */
+  public shift(): Track | undefined {
+    const track = this.tracks.shift();
+    if (track) {
+      this.markServed(track);
+    }
+    return track;
+  }
+
+  /**
+   * Put a track back at the front of the queue
+   */
+  public unshift(track: Track): void {
+    this.tracks.unshift(track);
+  }
+
+  /**
+   * Re-append a track that already was in the queue (queue loop)
+   */
+  public requeue(track: Track): void {
+    this.tracks.push(track);
+  }
+
+  // ==================== Fair Mode ====================
+
+  /**
+   * Index of the next track to play
+   * In fair mode this is the oldest track of the requester served least recently
+   */
+  private nextIndex(): number {
+    if (!this.fair) {
+      return 0;
+    }
+
+    let bestIndex = 0;
+    let bestServed = Infinity;
+    const seen = new Set<string>();
+
+    for (let i = 0; i < this.tracks.length; i++) {
+      const key = this.requesterKey(this.tracks[i]);
+      if (seen.has(key)) {
+        continue;
+      }
+      seen.add(key);
+
+      const served = this.lastServed.get(key) ?? -1;
+      if (served < bestServed) {
+        bestServed = served;
+        bestIndex = i;
+      }
+    }
+
+    return bestIndex;
+  }
+
+  private markServed(track: Track): void {
+    this.lastServed.set(this.requesterKey(track), this.serveCounter++);
+  }
+
+  /**
+   * Tracks without a requester are grouped together
+   */
+  private requesterKey(track: Track): string {
+    return getRequester(track)?.id ?? '';
+  }
+
+  /**
+   * Throw if adding tracks to the existing ones would exceed maxSize or maxPerRequester
+   */
+  private checkLimits(existing: Track[], toAdd: Track[]): void {
+    if (existing.length + toAdd.length > this.maxSize) {
+      throw new Error(`Queue is full (max ${this.maxSize} tracks)`);
+    }
+
+    if (this.maxPerRequester !== Infinity) {
+      this.checkRequesterLimit(existing, toAdd);
+    }
+  }
+
+  /**
+   * Only the requesters of the tracks being added are checked, so lowering the cap
+   * doesn't block everyone else
+   */
+  private checkRequesterLimit(existing: Track[], toAdd: Track[]): void {
+    const counts = new Map<string, number>();
+    for (const track of toAdd) {
+      const requester = getRequester(track);
+      if (requester) {
+        counts.set(requester.id, (counts.get(requester.id) ?? 0) + 1);
+      }
+    }
+
+    for (const [id, adding] of counts) {
+      const queued = existing.filter((track) => getRequester(track)?.id === id).length;
+      if (queued + adding > this.maxPerRequester) {
+        throw new Error(`Requester ${id} has reached the queue limit (max ${this.maxPerRequester} tracks)`);
+      }
+    }
+  }
+}
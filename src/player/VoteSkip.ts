@@ -0,0 +1,196 @@
+/**
+ * VoteSkip - Vote to skip the current track
+ * Votes belong to the track they were cast for and reset when a new track starts.
+ * The threshold is a number of votes or a fraction of the listeners who can hear the track.
+ */
+
+import type { Player } from './Player';
+import type { Track, VoteSkipOptions, VoteSkipResult } from '../types/lavalink';
+import type { VoiceListener } from '../manager/VoiceForwarder';
+import type { LavalinkEventEmitter } from '../manager/events';
+
+export class VoteSkip {
+  public readonly options: Required<Omit<VoteSkipOptions, 'isPrivileged'>> &
+    Pick<VoteSkipOptions, 'isPrivileged'>;
+
+  private player: Player;
+  private eventEmitter: LavalinkEventEmitter;
+  private votes: Set<string> = new Set();
+  // Track the current votes were cast for
+  private track: Track | null = null;
+  private skipping: boolean = false;
+
+  constructor(player: Player, eventEmitter: LavalinkEventEmitter, options: VoteSkipOptions = {}) {
+    this.player = player;
+    this.eventEmitter = eventEmitter;
+    this.options = {
+      threshold: options.threshold ?? 0.5,
+      mode: options.mode ?? 'percentage',
+      isPrivileged: options.isPrivileged,
+    };
+  }
+
+  /**
+   * Cast a vote to skip the current track
+   * Skips once the threshold is reached, or immediately for a privileged user.
+   * When listeners are known, votes from users who aren't listening are ignored.
+   */
+  public async vote(userId: string): Promise<VoteSkipResult> {
+    const track = this.player.track;
+    if (!track) {
+      throw new Error('No track is playing');
+    }
+    this.syncTrack(track);
+
+    if (this.options.isPrivileged?.(userId, this.player.guildId)) {
+      const passed = await this.pass(track, true);
+      return {
+        passed,
+        votes: this.votes.size,
+        required: this.getRequired(),
+        duplicate: false,
+        notListening: false,
+      };
+    }
+
+    if (!this.isListening(userId)) {
+      return {
+        passed: false,
+        votes: this.votes.size,
+        required: this.getRequired(),
+        duplicate: false,
+        notListening: true,
+      };
+    }
+
+    const duplicate = this.votes.has(userId);
+    this.votes.add(userId);
+
+    const votes = this.votes.size;
+    const required = this.getRequired();
+
+    if (!duplicate) {
+      this.eventEmitter.emit('voteSkipUpdate', this.player, userId, votes, required);
+    }
+
+    const passed = votes >= required && (await this.pass(track, false));
+    return { passed, votes, required, duplicate, notListening: false };
+  }
+
+  /**
+   * Withdraw a vote
+   */
+  public remove(userId: string): boolean {
+    if (!this.player.track || this.track !== this.player.track || !this.votes.delete(userId)) {
+      return false;
+    }
+
+    this.eventEmitter.emit('voteSkipUpdate', this.player, userId, this.votes.size, this.getRequired());
+    return true;
+  }
+
+  /**
+   * User IDs that voted to skip the current track
+   */
+  public getVotes(): string[] {
+    return this.player.track && this.track === this.player.track ? Array.from(this.votes) : [];
+  }
+
+  /**
+   * Votes needed to skip with the current listeners
+   * Deafened listeners don't count; when no listeners are known, one vote is enough in percentage mode
+   */
+  public getRequired(): number {
+    const listening = this.getListening().length;
+
+    if (this.options.mode === 'count') {
+      const required = Math.max(1, Math.floor(this.options.threshold));
+      return listening > 0 ? Math.min(required, listening) : required;
+    }
+
+    return Math.max(1, Math.ceil(this.options.threshold * listening));
+  }
+
+  /**
+   * Clear all votes
+   */
+  public reset(): void {
+    this.votes.clear();
+    this.track = null;
+  }
+
+  /**
+   * Drop the vote of a listener who left; fewer listeners may mean the threshold is now met
+   * Called by the manager when a listener leaves
+   */
+  public async handleListenerLeave(userId: string): Promise<void> {
+    const track = this.player.track;
+    if (!track || this.track !== track) {
+      return;
+    }
+
+    this.votes.delete(userId);
+    if (this.votes.size > 0 && this.votes.size >= this.getRequired()) {
+      await this.pass(track, false);
+    }
+  }
+
+  // ==================== Internal Methods ====================
+
+  /**
+   * Listeners who can hear the track
+   */
+  private getListening(): VoiceListener[] {
+    return Array.from(this.player.listeners.values()).filter(
+      (listener) => !listener.selfDeaf && !listener.deaf
+    );
+  }
+
+  /**
+   * Whether a user may vote; anyone may when no listeners are known (e.g. listener tracking is off)
+   */
+  private isListening(userId: string): boolean {
+    if (this.player.listeners.size === 0) {
+      return true;
+    }
+
+    const listener = this.player.listeners.get(userId);
+    return !!listener && !listener.selfDeaf && !listener.deaf;
+  }
+
+  /**
+   * Votes cast for an earlier track are stale
+   */
+  private syncTrack(track: Track): void {
+    if (this.track !== track) {
+      this.votes.clear();
+      this.track = track;
+    }
+  }
+
+  /**
+   * Skip the track the votes were cast for
+   * Resolves false if it already changed or another vote is already skipping it
+   */
+  private async pass(track: Track, privileged: boolean): Promise<boolean> {
+    if (this.skipping || this.player.track !== track) {
+      return false;
+    }
+
+    const voters = Array.from(this.votes);
+    this.skipping = true;
+    try {
+      this.reset();
+      await this.player.skip();
+    } finally {
+      this.skipping = false;
+    }
+
+    this.eventEmitter.emit('voteSkipPassed', this.player, track, voters, privileged);
+    this.eventEmitter.emit(
+      'debug',
+      `Vote skip passed for ${track.info.title} in guild ${this.player.guildId}${privileged ? ' (privileged)' : ''}`
+    );
+    return true;
+  }
+}
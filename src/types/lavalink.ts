@@ -16,9 +16,12 @@ export interface NodeOptions {
   password: string;
   /** Whether to use secure connection (wss/https) */
   secure?: boolean;
-  /** Resume key for session restoration */
+  /**
+   * Resume key for session restoration
+   * @deprecated Lavalink v4 resumes sessions by session ID; this option is ignored
+   */
   resumeKey?: string;
-  /** Resume timeout in seconds */
+  /** Session resume timeout in seconds */
   resumeTimeout?: number;
   /** Maximum number of reconnection attempts */
   maxReconnectAttempts?: number;
@@ -26,8 +29,17 @@ export interface NodeOptions {
   reconnectDelay?: number;
   /** Geographic region for voice optimization (e.g., 'us-west', 'eu-central') */
   region?: string;
-  /** Retry strategy for rate limiting */
+  /** How failed REST requests are retried; 429/503 responses wait for Retry-After (default: 'exponential') */
   retryStrategy?: 'exponential' | 'linear' | 'none';
+  /** Timeout in milliseconds for each REST request attempt (default: 10000, 0 = none) */
+  requestTimeout?: number;
+  /** Maximum number of retries per REST request (default: 3) */
+  maxRequestRetries?: number;
+  /**
+   * Maximum REST requests in flight; more wait in priority lanes, with player updates
+   * ahead of track loads (default: unlimited)
+   */
+  maxConcurrentRequests?: number;
 }
 
 export interface NodeStats {
@@ -92,8 +104,24 @@ export interface Track {
   info: TrackInfo;
   /** Plugin-specific data */
   pluginInfo: Record<string, unknown>;
-  /** User data (v4) */
-  userData?: Record<string, unknown>;
+  /** User data (v4), echoed back by Lavalink in track events */
+  userData?: TrackUserData;
+}
+
+export interface TrackUserData extends Record<string, unknown> {
+  /** Who requested the track */
+  requester?: TrackRequester;
+}
+
+export interface TrackRequester {
+  /** User ID of the requester */
+  id: string;
+  /** Display name of the requester */
+  username?: string;
+  /** Avatar URL of the requester */
+  avatarUrl?: string;
+  /** Arbitrary metadata */
+  metadata?: Record<string, unknown>;
 }
 
 export interface TrackInfo {
@@ -227,6 +255,86 @@ export interface PlayerOptions {
   selfMute?: boolean;
   /** Initial volume (0-100) */
   volume?: number;
+  /** Maximum number of queued tracks (default: unlimited) */
+  maxQueueSize?: number;
+  /** Pick the next track round-robin across requesters (default: false) */
+  fairQueue?: boolean;
+  /** Maximum number of queued tracks per requester (default: unlimited) */
+  maxTracksPerRequester?: number;
+  /** Auto-disconnect settings, merged over ManagerOptions.inactivity */
+  inactivity?: InactivityOptions;
+  /** Vote-skip settings, merged over ManagerOptions.voteSkip */
+  voteSkip?: VoteSkipOptions;
+}
+
+export interface VoteSkipOptions {
+  /**
+   * Votes needed to skip: a fraction of the current listeners for 'percentage' (default: 0.5),
+   * or a number of votes for 'count'
+   */
+  threshold?: number;
+  /** How the threshold is interpreted (default: 'percentage') */
+  mode?: 'percentage' | 'count';
+  /** Users for whom a vote skips immediately (e.g. DJs or moderators) */
+  isPrivileged?: (userId: string, guildId: string) => boolean;
+}
+
+export interface VoteSkipResult {
+  /** Whether this vote skipped the track */
+  passed: boolean;
+  /** Votes for the current track */
+  votes: number;
+  /** Votes needed to skip */
+  required: number;
+  /** The user had already voted for this track */
+  duplicate: boolean;
+  /** The user isn't listening in the player's channel (absent or deafened), so the vote was ignored */
+  notListening: boolean;
+}
+
+export interface InactivityOptions {
+  /** Leave this many ms after the queue ends with nothing new queued (0 = never, default) */
+  idleTimeout?: number;
+  /** Leave after being paused for this many ms (0 = never, default) */
+  pausedTimeout?: number;
+  /** Leave after being alone in the voice channel for this many ms (0 = never, default) */
+  aloneTimeout?: number;
+}
+
+export type InactivityReason = 'queueEnd' | 'paused' | 'alone';
+
+export interface PlayerSnapshot {
+  /** Snapshot format version */
+  version: number;
+  guildId: string;
+  voiceChannelId: string;
+  textChannelId?: string;
+  selfDeafen: boolean;
+  selfMute: boolean;
+  /** Upcoming tracks */
+  queue: Track[];
+  /** Track playing when the snapshot was taken */
+  currentTrack: Track | null;
+  /** Playback position in milliseconds */
+  position: number;
+  /** Volume (0-100) */
+  volume: number;
+  loopMode: 'off' | 'track' | 'queue';
+  paused: boolean;
+  /** Filter configuration, including speed and pitch (timescale) */
+  filters: FilterOptions;
+  /** Playback history, oldest first */
+  history: Track[];
+  /** Tracks available to previous(), oldest first */
+  previousTracks: Track[];
+}
+
+export interface ManagerSnapshot {
+  /** Snapshot format version */
+  version: number;
+  /** When the snapshot was taken (ms since epoch) */
+  createdAt: number;
+  players: PlayerSnapshot[];
 }
 
 // ==================== Filter Types ====================
@@ -414,7 +522,17 @@ export type LavalinkEvent =
 
 // ==================== REST API Types ====================
 
+export interface UpdatePlayerTrack {
+  /** Base64 encoded track (null stops the player) */
+  encoded?: string | null;
+  /** Track identifier (alternative to encoded) */
+  identifier?: string;
+  /** User data attached to the track */
+  userData?: Record<string, unknown>;
+}
+
 export interface UpdatePlayerPayload {
+  track?: UpdatePlayerTrack;
   encodedTrack?: string | null;
   identifier?: string;
   position?: number;
@@ -435,16 +553,29 @@ export interface PlayerResponse {
   filters: FilterOptions;
 }
 
+/**
+ * A field where the player's local state disagreed with the node
+ */
+export interface PlayerStateDifference {
+  field: 'track' | 'volume' | 'paused' | 'position';
+  /** Expected value: encoded track, volume (0-100), paused flag or position in ms */
+  local: string | number | boolean | null;
+  /** Value reported by the node, which the player adopts */
+  remote: string | number | boolean | null;
+}
+
 // ==================== Manager Types ====================
 
 export interface ManagerOptions {
   /** Array of Lavalink nodes */
   nodes: NodeOptions[];
-  /** Function to send Discord gateway payloads */
-  send: (guildId: string, payload: DiscordVoicePayload) => void;
+  /** Function to send Discord gateway payloads (required unless sendToShard is given) */
+  send?: (guildId: string, payload: DiscordVoicePayload) => void;
+  /** Function to send Discord gateway payloads through a specific shard; takes precedence over send */
+  sendToShard?: (shardId: number, payload: DiscordVoicePayload) => void;
   /** Bot client ID */
   clientId?: string;
-  /** Number of shards */
+  /** Total number of shards, used to compute each guild's shard ID (default: 1) */
   shards?: number;
   /** Auto-play next track in queue */
   autoPlay?: boolean;
@@ -452,6 +583,44 @@ export interface ManagerOptions {
   defaultSearchPlatform?: 'ytsearch' | 'ytmsearch' | 'scsearch' | 'spsearch' | 'amsearch';
   /** Enable debug logging */
   debug?: boolean;
+  /** Volume normalization settings shared by all players */
+  volumeNormalization?: VolumeNormalizationOptions;
+  /** Default auto-disconnect settings for all players */
+  inactivity?: InactivityOptions;
+  /** Default vote-skip settings for all players */
+  voteSkip?: VoteSkipOptions;
+  /** Recovery action per Discord voice close code, merged over the defaults */
+  voiceCloseActions?: Record<number, VoiceCloseAction>;
+  /** Track other users' voice states to maintain Player.listeners (default: true) */
+  trackListeners?: boolean;
+  /**
+   * Node names per voice region, e.g. `{ 'us-east': ['us-1', 'us-2'], rotterdam: 'eu-1' }`
+   * Takes precedence over NodeOptions.region when placing players
+   */
+  regions?: Record<string, string | string[]>;
+}
+
+/**
+ * Recovery action for a closed Discord voice connection
+ * - rejoin: leave and join the channel again, waiting for a fresh session
+ * - reconnect: send the current voice state to Lavalink again
+ * - waitForServer: wait for a new VOICE_SERVER_UPDATE, then rejoin if none arrives
+ * - destroy: destroy the player, unless the bot was moved to another channel
+ * - ignore: only emit socketClosed
+ */
+export type VoiceCloseAction = 'rejoin' | 'reconnect' | 'waitForServer' | 'destroy' | 'ignore';
+
+export interface VolumeNormalizationOptions {
+  /** Enable normalization for new players (default: false) */
+  enabled?: boolean;
+  /** Target loudness in LUFS (default: -14) */
+  targetLoudness?: number;
+  /** Minimum linear gain (default: 0.25) */
+  minGain?: number;
+  /** Maximum linear gain (default: 2.0) */
+  maxGain?: number;
+  /** Assumed loudness in LUFS per source name until a baseline is learned */
+  sourceBaselines?: Record<string, number>;
 }
 
 export interface DiscordVoicePayload {
@@ -480,10 +649,31 @@ export interface DiscordVoiceStateUpdate {
     user_id: string;
     session_id: string;
     channel_id: string | null;
+    self_deaf?: boolean;
+    self_mute?: boolean;
+    deaf?: boolean;
+    mute?: boolean;
+    member?: DiscordGuildMember;
+  };
+}
+
+export interface DiscordGuildCreate {
+  t: 'GUILD_CREATE';
+  d: {
+    id: string;
+    voice_states?: Omit<DiscordVoiceStateUpdate['d'], 'guild_id'>[];
+    members?: DiscordGuildMember[];
+  };
+}
+
+export interface DiscordGuildMember {
+  user?: {
+    id: string;
+    bot?: boolean;
   };
 }
 
-export type DiscordVoiceEvent = DiscordVoiceServerUpdate | DiscordVoiceStateUpdate;
+export type DiscordVoiceEvent = DiscordVoiceServerUpdate | DiscordVoiceStateUpdate | DiscordGuildCreate;
 
 // ==================== Utility Types ====================
 
@@ -0,0 +1,72 @@
+/**
+ * PlayerStore - Persistence for manager snapshots
+ * Stores return snapshots as saved; Manager.restore() migrates them to the current version
+ */
+
+import { promises as fs } from 'fs';
+import type { ManagerSnapshot } from '../types/lavalink';
+
+export interface PlayerStore {
+  /** Persist a snapshot, replacing the previous one */
+  save(snapshot: ManagerSnapshot): Promise<void>;
+  /** Load the last saved snapshot, or null if there is none */
+  load(): Promise<ManagerSnapshot | null>;
+  /** Remove the saved snapshot */
+  clear(): Promise<void>;
+}
+
+/**
+ * Keeps the snapshot in memory (useful for tests and hot reloads)
+ */
+export class MemoryPlayerStore implements PlayerStore {
+  // Stored serialized so later changes to the saved object don't leak in
+  private data: string | null = null;
+
+  public save(snapshot: ManagerSnapshot): Promise<void> {
+    this.data = JSON.stringify(snapshot);
+    return Promise.resolve();
+  }
+
+  public load(): Promise<ManagerSnapshot | null> {
+    return Promise.resolve(this.data ? (JSON.parse(this.data) as ManagerSnapshot) : null);
+  }
+
+  public clear(): Promise<void> {
+    this.data = null;
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Stores the snapshot as a JSON file
+ * Writes go to a temporary file first, so a crash mid-write keeps the previous snapshot
+ */
+export class JsonFilePlayerStore implements PlayerStore {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  public async save(snapshot: ManagerSnapshot): Promise<void> {
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(snapshot), 'utf8');
+    await fs.rename(tempPath, this.filePath);
+  }
+
+  public async load(): Promise<ManagerSnapshot | null> {
+    try {
+      const data = await fs.readFile(this.filePath, 'utf8');
+      return JSON.parse(data) as ManagerSnapshot;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  public async clear(): Promise<void> {
+    await fs.rm(this.filePath, { force: true });
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * RequestScheduler - Limits the REST requests in flight to a node
+ * Queued requests wait in priority lanes: high (voice and playback), normal, then low (searches)
+ */
+
+export type RequestPriority = 'high' | 'normal' | 'low';
+
+export interface RequestSchedulerStats {
+  /** Requests currently sent to the node */
+  inFlight: number;
+  /** Requests waiting for a slot */
+  queued: number;
+  /** Waiting requests per priority lane */
+  lanes: Record<RequestPriority, number>;
+  /** Most requests ever waiting at once */
+  peakQueued: number;
+  /** Requests finished, successfully or not */
+  completed: number;
+  /** Average time in milliseconds requests waited for a slot */
+  averageWait: number;
+}
+
+interface QueuedRequest {
+  enqueuedAt: number;
+  run: () => void;
+}
+
+const PRIORITIES: RequestPriority[] = ['high', 'normal', 'low'];
+
+export class RequestScheduler {
+  /** Maximum requests in flight (Infinity = unlimited) */
+  public readonly maxInFlight: number;
+
+  private inFlight: number = 0;
+  private lanes: Record<RequestPriority, QueuedRequest[]> = { high: [], normal: [], low: [] };
+  private peakQueued: number = 0;
+  private completed: number = 0;
+  private dispatched: number = 0;
+  private totalWait: number = 0;
+
+  constructor(maxInFlight: number = Infinity) {
+    if (!(maxInFlight >= 1)) {
+      throw new Error('maxInFlight must be at least 1');
+    }
+    this.maxInFlight = maxInFlight;
+  }
+
+  /**
+   * Run a request once a slot is free
+   * Rejects with an AbortError if the signal fires while the request is still queued
+   */
+  public schedule<T>(
+    task: () => Promise<T>,
+    priority: RequestPriority = 'normal',
+    signal?: AbortSignal
+  ): Promise<T> {
+    if (signal?.aborted) {
+      return Promise.reject(abortError());
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        if (this.remove(priority, request)) {
+          reject(abortError());
+        }
+      };
+
+      const request: QueuedRequest = {
+        enqueuedAt: Date.now(),
+        run: () => {
+          signal?.removeEventListener('abort', onAbort);
+          this.inFlight++;
+
+          Promise.resolve()
+            .then(task)
+            .then(resolve, reject)
+            .finally(() => {
+              this.inFlight--;
+              this.completed++;
+              this.drain();
+            });
+        },
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.lanes[priority].push(request);
+      this.peakQueued = Math.max(this.peakQueued, this.getQueued());
+      this.drain();
+    });
+  }
+
+  /**
+   * Number of requests waiting for a slot
+   */
+  public getQueued(): number {
+    return this.lanes.high.length + this.lanes.normal.length + this.lanes.low.length;
+  }
+
+  /**
+   * Queue depth and throughput metrics
+   */
+  public getStats(): RequestSchedulerStats {
+    return {
+      inFlight: this.inFlight,
+      queued: this.getQueued(),
+      lanes: {
+        high: this.lanes.high.length,
+        normal: this.lanes.normal.length,
+        low: this.lanes.low.length,
+      },
+      peakQueued: this.peakQueued,
+      completed: this.completed,
+      averageWait: this.dispatched > 0 ? this.totalWait / this.dispatched : 0,
+    };
+  }
+
+  // ==================== Internal Methods ====================
+
+  /**
+   * Start queued requests, highest priority first, while slots are free
+   */
+  private drain(): void {
+    while (this.inFlight < this.maxInFlight) {
+      const lane = PRIORITIES.find((priority) => this.lanes[priority].length > 0);
+      if (!lane) {
+        return;
+      }
+
+      const request = this.lanes[lane].shift()!;
+      this.dispatched++;
+      this.totalWait += Date.now() - request.enqueuedAt;
+      request.run();
+    }
+  }
+
+  private remove(priority: RequestPriority, request: QueuedRequest): boolean {
+    const lane = this.lanes[priority];
+    const index = lane.indexOf(request);
+    if (index === -1) {
+      return false;
+    }
+
+    lane.splice(index, 1);
+    return true;
+  }
+}
+
+/**
+ * Error thrown when a request is aborted by its signal
+ */
+export function abortError(): Error {
+  const error = new Error('Request aborted');
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * Settle with a shared promise, or reject with an AbortError when the signal fires first
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    return Promise.reject(abortError());
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortError());
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
@@ -0,0 +1,122 @@
+/**
+ * VolumeNormalizer - Per-track gain adjustment from loudness estimates
+ * Uses loudness hints from Track.pluginInfo when available, otherwise a baseline
+ * learned per author and per source from earlier hints
+ */
+
+import type { Track, VolumeNormalizationOptions } from '../types/lavalink';
+
+/** Weight of a new observation in the learned baselines */
+const LEARNING_RATE = 0.3;
+
+export class VolumeNormalizer {
+  private options: Required<VolumeNormalizationOptions>;
+  // Learned loudness in LUFS, keyed by author and by source
+  private baselines: Map<string, number> = new Map();
+
+  constructor(options: VolumeNormalizationOptions = {}) {
+    this.options = {
+      enabled: options.enabled ?? false,
+      targetLoudness: options.targetLoudness ?? -14,
+      minGain: options.minGain ?? 0.25,
+      maxGain: options.maxGain ?? 2.0,
+      sourceBaselines: options.sourceBaselines ?? {},
+    };
+  }
+
+  /**
+   * Whether players should normalize by default
+   */
+  public get enabled(): boolean {
+    return this.options.enabled;
+  }
+
+  /**
+   * Compute the linear gain for a track (1.0 = unchanged)
+   * Loudness hints on the track are learned as a side effect
+   */
+  public computeGain(track: Track): number {
+    const hint = this.getLoudnessHint(track);
+    if (hint !== null) {
+      this.learn(track, hint);
+    }
+
+    const loudness = hint ?? this.estimate(track);
+    if (loudness === null) {
+      return 1.0;
+    }
+
+    const gain = Math.pow(10, (this.options.targetLoudness - loudness) / 20);
+    return Math.min(this.options.maxGain, Math.max(this.options.minGain, gain));
+  }
+
+  /**
+   * Get the loudness hint supplied by a plugin, in LUFS
+   * Supports `loudness`/`lufs` (absolute) and `replayGain` (dB relative to -18 LUFS)
+   */
+  public getLoudnessHint(track: Track): number | null {
+    const info = track.pluginInfo ?? {};
+
+    for (const key of ['loudness', 'lufs']) {
+      const value = info[key];
+      if (typeof value === 'number' && Number.isFinite(value)) {
+        return value;
+      }
+    }
+
+    const replayGain = info['replayGain'];
+    if (typeof replayGain === 'number' && Number.isFinite(replayGain)) {
+      return -18 - replayGain;
+    }
+
+    return null;
+  }
+
+  /**
+   * Estimate loudness from learned baselines (author first, then source)
+   */
+  public estimate(track: Track): number | null {
+    return (
+      this.baselines.get(this.authorKey(track)) ??
+      this.baselines.get(this.sourceKey(track)) ??
+      this.options.sourceBaselines[track.info.sourceName] ??
+      null
+    );
+  }
+
+  /**
+   * Export learned baselines for persistence
+   */
+  public exportBaselines(): Record<string, number> {
+    return Object.fromEntries(this.baselines);
+  }
+
+  /**
+   * Import previously exported baselines
+   */
+  public importBaselines(data: Record<string, number>): void {
+    for (const [key, loudness] of Object.entries(data)) {
+      this.baselines.set(key, loudness);
+    }
+  }
+
+  // ==================== Internal Methods ====================
+
+  private learn(track: Track, loudness: number): void {
+    for (const key of [this.authorKey(track), this.sourceKey(track)]) {
+      const baseline = this.baselines.get(key);
+      this.baselines.set(
+        key,
+        baseline === undefined ? loudness : baseline + (loudness - baseline) * LEARNING_RATE
+      );
+    }
+  }
+
+  private sourceKey(track: Track): string {
+    return `source:${track.info.sourceName}`;
+  }
+
+  private authorKey(track: Track): string {
+    return `author:${track.info.sourceName}:${track.info.author.toLowerCase()}`;
+  }
+}
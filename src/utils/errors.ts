@@ -0,0 +1,139 @@
+/**
+ * Error classes thrown by lavaflow
+ */
+
+/**
+ * Thrown when the voice connection handshake does not complete in time
+ */
+export class VoiceConnectTimeoutError extends Error {
+  public readonly guildId: string;
+  public readonly channelId: string;
+  /** Timeout in milliseconds */
+  public readonly timeout: number;
+  /** Whether Discord sent VOICE_STATE_UPDATE for the bot */
+  public readonly receivedStateUpdate: boolean;
+  /** Whether Discord sent VOICE_SERVER_UPDATE */
+  public readonly receivedServerUpdate: boolean;
+
+  constructor(
+    guildId: string,
+    channelId: string,
+    timeout: number,
+    receivedStateUpdate: boolean,
+    receivedServerUpdate: boolean
+  ) {
+    super(
+      `Timed out connecting to voice channel ${channelId} in guild ${guildId} after ${timeout}ms` +
+        ` (state update: ${receivedStateUpdate ? 'received' : 'missing'},` +
+        ` server update: ${receivedServerUpdate ? 'received' : 'missing'})`
+    );
+    this.name = 'VoiceConnectTimeoutError';
+    this.guildId = guildId;
+    this.channelId = channelId;
+    this.timeout = timeout;
+    this.receivedStateUpdate = receivedStateUpdate;
+    this.receivedServerUpdate = receivedServerUpdate;
+  }
+}
+
+/**
+ * Error body returned by the Lavalink v4 REST API
+ */
+export interface LavalinkErrorBody {
+  /** Time of the error in milliseconds since the Unix epoch */
+  timestamp: number;
+  status: number;
+  /** Status code message, e.g. "Not Found" */
+  error: string;
+  message: string;
+  /** Request path */
+  path: string;
+  /** Stack trace, only sent when the request had `trace=true` */
+  trace?: string;
+}
+
+/**
+ * Thrown when a Lavalink REST request fails
+ * `status` is 0 when no response was received
+ */
+export class LavalinkRestError extends Error {
+  public readonly method: string;
+  public readonly endpoint: string;
+  public readonly status: number;
+  /** Parsed error body, if Lavalink sent one */
+  public readonly body: LavalinkErrorBody | null;
+
+  constructor(
+    method: string,
+    endpoint: string,
+    status: number,
+    message: string,
+    body: LavalinkErrorBody | null = null
+  ) {
+    super(message);
+    this.name = 'LavalinkRestError';
+    this.method = method;
+    this.endpoint = endpoint;
+    this.status = status;
+    this.body = body;
+  }
+}
+
+/**
+ * Thrown when Lavalink rejects the node password (401/403)
+ */
+export class LavalinkAuthError extends LavalinkRestError {
+  constructor(method: string, endpoint: string, status: number, message: string, body: LavalinkErrorBody | null = null) {
+    super(method, endpoint, status, message, body);
+    this.name = 'LavalinkAuthError';
+  }
+}
+
+/**
+ * Thrown when the node's session no longer exists, e.g. after Lavalink restarted
+ * The node starts a new session and its players are rebuilt automatically
+ */
+export class SessionNotFoundError extends LavalinkRestError {
+  constructor(method: string, endpoint: string, status: number, message: string, body: LavalinkErrorBody | null = null) {
+    super(method, endpoint, status, message, body);
+    this.name = 'SessionNotFoundError';
+  }
+}
+
+/**
+ * Thrown when the player for a guild does not exist on the node
+ */
+export class PlayerNotFoundError extends LavalinkRestError {
+  constructor(method: string, endpoint: string, status: number, message: string, body: LavalinkErrorBody | null = null) {
+    super(method, endpoint, status, message, body);
+    this.name = 'PlayerNotFoundError';
+  }
+}
+
+/**
+ * Thrown when the node could not be reached or the connection failed
+ */
+export class LavalinkNetworkError extends LavalinkRestError {
+  /** Underlying error from fetch */
+  public readonly cause?: Error;
+
+  constructor(method: string, endpoint: string, message: string, cause?: Error) {
+    super(method, endpoint, 0, message);
+    this.name = 'LavalinkNetworkError';
+    this.cause = cause;
+  }
+}
+
+/**
+ * Thrown when a Lavalink REST request does not complete in time
+ */
+export class RequestTimeoutError extends LavalinkNetworkError {
+  /** Timeout in milliseconds */
+  public readonly timeout: number;
+
+  constructor(method: string, endpoint: string, timeout: number) {
+    super(method, endpoint, `${method} ${endpoint} timed out after ${timeout}ms`);
+    this.name = 'RequestTimeoutError';
+    this.timeout = timeout;
+  }
+}
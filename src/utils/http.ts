@@ -1,8 +1,37 @@
 /**
  * HTTP utility for making REST API calls to Lavalink
+ * Requests time out, can be aborted by the caller and are retried following the node's retry strategy.
+ * Failures are thrown as LavalinkRestError subclasses.
  */
 
-export interface RequestOptions {
+import { ExponentialBackoff } from './backoff';
+import { RequestScheduler, abortError } from './RequestScheduler';
+import type { RequestPriority } from './RequestScheduler';
+import {
+  LavalinkRestError,
+  LavalinkAuthError,
+  SessionNotFoundError,
+  PlayerNotFoundError,
+  LavalinkNetworkError,
+  RequestTimeoutError,
+} from './errors';
+import type { LavalinkErrorBody } from './errors';
+
+export type RetryStrategy = 'exponential' | 'linear' | 'none';
+
+/**
+ * Per-request timeout and cancellation
+ */
+export interface RequestControl {
+  /** Timeout in milliseconds for each attempt including time queued, overriding the client default (0 = none) */
+  timeout?: number;
+  /** Aborts the request, including a pending retry */
+  signal?: AbortSignal;
+  /** Lane the request waits in when the client limits requests in flight (default: 'normal') */
+  priority?: RequestPriority;
+}
+
+export interface RequestOptions extends RequestControl {
   method: 'GET' | 'POST' | 'PATCH' | 'DELETE';
   endpoint: string;
   headers?: Record<string, string>;
@@ -14,11 +43,32 @@ export interface RequestConfig {
   port: number;
   password: string;
   secure: boolean;
+  /** Default timeout in milliseconds for each attempt (default: 10000, 0 = none) */
+  timeout?: number;
+  /** How failed requests are retried (default: 'exponential') */
+  retryStrategy?: RetryStrategy;
+  /** Maximum number of retries per request (default: 3) */
+  maxRetries?: number;
+  /** Base delay between retries in milliseconds (default: 500) */
+  retryDelay?: number;
+  /** Maximum requests in flight; more are queued by priority (default: unlimited) */
+  maxInFlight?: number;
 }
 
+/** Rate limited or temporarily unavailable */
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+/** A longer Retry-After fails the request instead of waiting */
+const MAX_RETRY_AFTER = 60000;
+
 export class HttpClient {
+  /** Queue for requests beyond maxInFlight */
+  public readonly scheduler: RequestScheduler;
   private baseUrl: string;
   private headers: Record<string, string>;
+  private timeout: number;
+  private retryStrategy: RetryStrategy;
+  private maxRetries: number;
+  private retryDelay: number;
 
   constructor(config: RequestConfig) {
     const protocol = config.secure ? 'https' : 'http';
@@ -27,51 +77,68 @@ export class HttpClient {
       'Authorization': config.password,
       'Content-Type': 'application/json',
     };
+    this.timeout = config.timeout ?? 10000;
+    this.retryStrategy = config.retryStrategy ?? 'exponential';
+    this.maxRetries = config.maxRetries ?? 3;
+    this.retryDelay = config.retryDelay ?? 500;
+    this.scheduler = new RequestScheduler(config.maxInFlight ?? Infinity);
   }
 
   /**
    * Make a request to the Lavalink REST API
+   * Connection errors and 429/502/503/504 responses are retried; Retry-After is honoured.
+   * A timed out attempt rejects with RequestTimeoutError and is not retried.
    */
   async request<T = any>(options: RequestOptions): Promise<T> {
-    const url = `${this.baseUrl}${options.endpoint}`;
-    const headers = { ...this.headers, ...options.headers };
+    const backoff = new ExponentialBackoff({ baseDelay: this.retryDelay, maxDelay: 30000 });
 
-    try {
-      const response = await fetch(url, {
-        method: options.method,
-        headers,
-        body: options.body ? JSON.stringify(options.body) : undefined,
-      });
-
-      // Handle non-2xx status codes
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(
-          `HTTP ${response.status}: ${response.statusText} - ${errorText}`
-        );
+    for (let retry = 0; ; retry++) {
+      let response: Response;
+      let body: string;
+
+      try {
+        ({ response, body } = await this.send(options));
+      } catch (error) {
+        if (
+          error instanceof RequestTimeoutError ||
+          options.signal?.aborted ||
+          !this.canRetry(retry)
+        ) {
+          throw this.wrapError(error, options);
+        }
+        await delay(this.getRetryDelay(retry, backoff), options.signal);
+        continue;
       }
 
-      // Handle empty responses (204 No Content)
-      if (response.status === 204 || response.headers.get('content-length') === '0') {
-        return {} as T;
+      if (response.ok) {
+        // Empty responses (204 No Content) resolve to an empty object
+        return (body ? JSON.parse(body) : {}) as T;
       }
 
-      // Parse JSON response
-      const data = await response.json();
-      return data as T;
-    } catch (error) {
-      if (error instanceof Error) {
-        throw new Error(`Request failed: ${error.message}`);
+      const error = createRestError(options, response, body);
+      const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+
+      if (
+        !RETRYABLE_STATUSES.has(response.status) ||
+        !this.canRetry(retry) ||
+        (retryAfter !== null && retryAfter > MAX_RETRY_AFTER)
+      ) {
+        throw error;
       }
-      throw error;
+
+      await delay(retryAfter ?? this.getRetryDelay(retry, backoff), options.signal);
     }
   }
 
   /**
    * GET request
    */
-  async get<T = any>(endpoint: string, headers?: Record<string, string>): Promise<T> {
-    return this.request<T>({ method: 'GET', endpoint, headers });
+  async get<T = any>(
+    endpoint: string,
+    headers?: Record<string, string>,
+    control?: RequestControl
+  ): Promise<T> {
+    return this.request<T>({ method: 'GET', endpoint, headers, ...control });
   }
 
   /**
@@ -80,9 +147,10 @@ export class HttpClient {
   async post<T = any>(
     endpoint: string,
     body?: any,
-    headers?: Record<string, string>
+    headers?: Record<string, string>,
+    control?: RequestControl
   ): Promise<T> {
-    return this.request<T>({ method: 'POST', endpoint, body, headers });
+    return this.request<T>({ method: 'POST', endpoint, body, headers, ...control });
   }
 
   /**
@@ -91,16 +159,21 @@ export class HttpClient {
   async patch<T = any>(
     endpoint: string,
     body?: any,
-    headers?: Record<string, string>
+    headers?: Record<string, string>,
+    control?: RequestControl
   ): Promise<T> {
-    return this.request<T>({ method: 'PATCH', endpoint, body, headers });
+    return this.request<T>({ method: 'PATCH', endpoint, body, headers, ...control });
   }
 
   /**
    * DELETE request
    */
-  async delete<T = any>(endpoint: string, headers?: Record<string, string>): Promise<T> {
-    return this.request<T>({ method: 'DELETE', endpoint, headers });
+  async delete<T = any>(
+    endpoint: string,
+    headers?: Record<string, string>,
+    control?: RequestControl
+  ): Promise<T> {
+    return this.request<T>({ method: 'DELETE', endpoint, headers, ...control });
   }
 
   /**
@@ -111,4 +184,157 @@ export class HttpClient {
     this.baseUrl = `${protocol}://${config.host}:${config.port}`;
     this.headers['Authorization'] = config.password;
   }
+
+  // ==================== Internal Methods ====================
+
+  /**
+   * Send a single attempt once the scheduler has a slot and read its body, all within the timeout
+   */
+  private async send(options: RequestOptions): Promise<{ response: Response; body: string }> {
+    if (options.signal?.aborted) {
+      throw abortError();
+    }
+
+    const timeout = options.timeout ?? this.timeout;
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    let timedOut = false;
+
+    const timer =
+      timeout > 0
+        ? setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+          }, timeout)
+        : null;
+    options.signal?.addEventListener('abort', onAbort);
+
+    try {
+      return await this.scheduler.schedule(
+        async () => {
+          const response = await fetch(`${this.baseUrl}${options.endpoint}`, {
+            method: options.method,
+            headers: { ...this.headers, ...options.headers },
+            body: options.body ? JSON.stringify(options.body) : undefined,
+            signal: controller.signal,
+          });
+          const body = await response.text();
+          return { response, body };
+        },
+        options.priority,
+        controller.signal
+      );
+    } catch (error) {
+      if (timedOut) {
+        throw new RequestTimeoutError(options.method, options.endpoint, timeout);
+      }
+      if (options.signal?.aborted) {
+        throw abortError();
+      }
+      throw error;
+    } finally {
+      if (timer) {
+        clearTimeout(timer);
+      }
+      options.signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  private canRetry(retry: number): boolean {
+    return this.retryStrategy !== 'none' && retry < this.maxRetries;
+  }
+
+  private getRetryDelay(retry: number, backoff: ExponentialBackoff): number {
+    return this.retryStrategy === 'linear' ? this.retryDelay * (retry + 1) : backoff.next();
+  }
+
+  /**
+   * Timeouts and aborts are thrown as is; anything else failed to reach the node
+   */
+  private wrapError(error: unknown, options: RequestOptions): unknown {
+    if (error instanceof RequestTimeoutError || (error instanceof Error && error.name === 'AbortError')) {
+      return error;
+    }
+
+    const cause = error instanceof Error ? error : new Error(String(error));
+    return new LavalinkNetworkError(
+      options.method,
+      options.endpoint,
+      `Request failed: ${cause.message}`,
+      cause
+    );
+  }
+}
+
+/**
+ * Build the error for a non-2xx response from the Lavalink v4 error body
+ */
+function createRestError(options: RequestOptions, response: Response, text: string): LavalinkRestError {
+  let body: LavalinkErrorBody | null = null;
+  try {
+    const parsed = JSON.parse(text) as Partial<LavalinkErrorBody> | null;
+    if (parsed && typeof parsed === 'object' && typeof parsed.message === 'string') {
+      body = parsed as LavalinkErrorBody;
+    }
+  } catch {
+    // Not a Lavalink error body (e.g. from a proxy)
+  }
+
+  const { status } = response;
+  const { method, endpoint } = options;
+  const detail = body?.message ?? (text || response.statusText);
+  const message = `HTTP ${status} ${method} ${endpoint}: ${detail}`;
+
+  if (status === 401 || status === 403) {
+    return new LavalinkAuthError(method, endpoint, status, message, body);
+  }
+
+  // Lavalink answers "Session not found" or "Player not found"
+  if (status === 404 && /^\/v4\/sessions\//.test(endpoint)) {
+    const playerEndpoint = /\/players\/[^/?]+/.test(endpoint);
+    return /session not found/i.test(detail) || !playerEndpoint
+      ? new SessionNotFoundError(method, endpoint, status, message, body)
+      : new PlayerNotFoundError(method, endpoint, status, message, body);
+  }
+
+  return new LavalinkRestError(method, endpoint, status, message, body);
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Sleep that rejects with an AbortError when the signal fires
+ */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 }
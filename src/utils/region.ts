@@ -0,0 +1,34 @@
+/**
+ * Voice region helpers
+ * Derives the voice region from the endpoint Discord sends in VOICE_SERVER_UPDATE
+ */
+
+/**
+ * Get the voice region of a Discord voice endpoint
+ * e.g. `us-east1234.discord.media:443` -> `us-east`, `c-fra12-e2b6e29a.discord.media` -> `fra`
+ * Returns null if no region can be derived
+ */
+export function getVoiceRegion(endpoint: string | null | undefined): string | null {
+  if (!endpoint) {
+    return null;
+  }
+
+  const host = endpoint.replace(/^wss?:\/\//i, '').split(/[:/]/)[0].toLowerCase();
+  const label = host.split('.')[0];
+
+  // Newer endpoints are named after an airport code: c-<code><number>-<id>
+  const airport = /^c-([a-z]+)\d+-/.exec(label);
+  if (airport) {
+    return airport[1];
+  }
+
+  const region = label.replace(/\d+$/, '').replace(/-+$/, '');
+  return region || null;
+}
+
+/**
+ * Normalize a region name so us-west, uswest and US_WEST compare equal
+ */
+export function normalizeRegion(region: string): string {
+  return region.toLowerCase().replace(/[-_\s]/g, '');
+}
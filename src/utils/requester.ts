@@ -0,0 +1,45 @@
+/**
+ * Requester attribution helpers
+ * Stores who requested a track in Track.userData so it travels with the track
+ */
+
+import type { Track, TrackRequester, LoadResult } from '../types/lavalink';
+
+/**
+ * Return a copy of the track with the requester attached
+ */
+export function setRequester(track: Track, requester: TrackRequester): Track {
+  return {
+    ...track,
+    userData: { ...track.userData, requester },
+  };
+}
+
+/**
+ * Get the requester of a track, if any
+ */
+export function getRequester(track: Track): TrackRequester | undefined {
+  return track.userData?.requester;
+}
+
+/**
+ * Return a copy of a load result with the requester attached to every track
+ */
+export function attachRequester(result: LoadResult, requester: TrackRequester): LoadResult {
+  switch (result.loadType) {
+    case 'track':
+      return { ...result, data: setRequester(result.data, requester) };
+    case 'playlist':
+      return {
+        ...result,
+        data: {
+          ...result.data,
+          tracks: result.data.tracks.map((track) => setRequester(track, requester)),
+        },
+      };
+    case 'search':
+      return { ...result, data: result.data.map((track) => setRequester(track, requester)) };
+    default:
+      return result;
+  }
+}
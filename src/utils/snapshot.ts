@@ -0,0 +1,100 @@
+/**
+ * Snapshot versioning - Upgrades saved player and manager snapshots to the current format
+ * Each migration takes a snapshot of one version and returns the next version
+ */
+
+import type { ManagerSnapshot, PlayerSnapshot } from '../types/lavalink';
+
+/** Current version of the PlayerSnapshot format */
+export const PLAYER_SNAPSHOT_VERSION = 2;
+
+/** Current version of the ManagerSnapshot format */
+export const MANAGER_SNAPSHOT_VERSION = 1;
+
+type SnapshotData = Record<string, unknown>;
+type Migration = (data: SnapshotData) => SnapshotData;
+
+/** Player snapshot migrations, keyed by the version they upgrade from */
+const playerMigrations: Record<number, Migration> = {
+  // Unversioned saveQueue() output, which had no filters
+  0: (data) => ({
+    queue: [],
+    currentTrack: null,
+    position: 0,
+    volume: 100,
+    loopMode: 'off',
+    paused: false,
+    filters: {},
+    ...data,
+  }),
+  // Version 2 added history and the channel and voice settings
+  1: (data) => ({
+    history: [],
+    previousTracks: [],
+    selfDeafen: false,
+    selfMute: false,
+    ...data,
+  }),
+};
+
+/** Manager snapshot migrations, keyed by the version they upgrade from */
+const managerMigrations: Record<number, Migration> = {};
+
+/**
+ * Upgrade a parsed player snapshot to the current version
+ */
+export function migratePlayerSnapshot(data: unknown): PlayerSnapshot {
+  const snapshot = migrate(data, PLAYER_SNAPSHOT_VERSION, playerMigrations, 'player');
+
+  if (typeof snapshot.guildId !== 'string' || typeof snapshot.voiceChannelId !== 'string') {
+    throw new Error('Player snapshot is missing guildId or voiceChannelId');
+  }
+
+  return snapshot as unknown as PlayerSnapshot;
+}
+
+/**
+ * Upgrade a parsed manager snapshot, and every player in it, to the current version
+ */
+export function migrateManagerSnapshot(data: unknown): ManagerSnapshot {
+  const snapshot = migrate(data, MANAGER_SNAPSHOT_VERSION, managerMigrations, 'manager');
+
+  if (!Array.isArray(snapshot.players)) {
+    throw new Error('Manager snapshot is missing players');
+  }
+
+  return {
+    version: MANAGER_SNAPSHOT_VERSION,
+    createdAt: typeof snapshot.createdAt === 'number' ? snapshot.createdAt : 0,
+    players: snapshot.players.map((player) => migratePlayerSnapshot(player)),
+  };
+}
+
+function migrate(
+  data: unknown,
+  currentVersion: number,
+  migrations: Record<number, Migration>,
+  kind: string
+): SnapshotData {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error(`Invalid ${kind} snapshot: expected an object`);
+  }
+
+  let snapshot = data as SnapshotData;
+  let version = typeof snapshot.version === 'number' ? snapshot.version : 0;
+
+  if (version > currentVersion) {
+    throw new Error(`Unsupported ${kind} snapshot version ${version} (current: ${currentVersion})`);
+  }
+
+  while (version < currentVersion) {
+    const migration = migrations[version];
+    if (!migration) {
+      throw new Error(`No migration for ${kind} snapshot version ${version}`);
+    }
+    snapshot = migration(snapshot);
+    version++;
+  }
+
+  return { ...snapshot, version };
+}